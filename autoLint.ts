@@ -0,0 +1,266 @@
+import { MarkdownView, TAbstractFile, TFile } from 'obsidian';
+import { computeHunks, diffLines, hunksToEdits } from './engine/diff';
+import { LintResult } from './engine/normalize';
+import VaultLinterPlugin from './main';
+
+// Delay before linting a new note, so the editor and templates can settle first
+const CREATE_DELAY = 500;
+
+// Why a note is linted; later kinds in this list take precedence when runs are merged
+const RUN_KINDS = ['status', 'save', 'create'] as const;
+type RunKind = typeof RUN_KINDS[number];
+
+/**
+ * Automatic linting
+ * Lints notes when they are created or saved (each optional), and keeps a status bar
+ * item showing whether the active note conforms
+ */
+export class AutoLinter {
+	plugin: VaultLinterPlugin;
+	statusBarEl: HTMLElement;
+	// Pending debounced runs by path
+	private timers = new Map<string, number>();
+	// Content the plugin itself wrote, by path; the modify event it causes is not linted again
+	private ownWrites = new Map<string, string>();
+	// What each pending run does, by path
+	private pendingKinds = new Map<string, RunKind>();
+	// Files were added, removed or renamed since the link index was built
+	private linkIndexStale = true;
+
+	constructor(plugin: VaultLinterPlugin) {
+		this.plugin = plugin;
+		this.statusBarEl = plugin.addStatusBarItem();
+		this.statusBarEl.addClass('vault-linter-status');
+	}
+
+	/**
+	 * Listen to vault and workspace events; call once the layout is ready so the
+	 * create events fired while the vault loads are not treated as new notes
+	 */
+	register(): void {
+		const { app } = this.plugin;
+
+		this.plugin.registerEvent(app.vault.on('create', file => {
+			this.linkIndexStale = true;
+			if (this.plugin.settings.lintOnCreate && this.isMarkdown(file)) {
+				this.queue(file, 'create', CREATE_DELAY);
+			}
+		}));
+		this.plugin.registerEvent(app.vault.on('modify', file => this.onModify(file)));
+		this.plugin.registerEvent(app.vault.on('delete', file => {
+			this.linkIndexStale = true;
+			this.forget(file.path);
+		}));
+		this.plugin.registerEvent(app.vault.on('rename', (file, oldPath) => {
+			this.linkIndexStale = true;
+			this.forget(oldPath);
+		}));
+		this.plugin.registerEvent(app.workspace.on('active-leaf-change', () => this.updateStatus()));
+
+		this.updateStatus();
+	}
+
+	/**
+	 * Stop all pending runs
+	 */
+	unload(): void {
+		this.timers.forEach(timer => window.clearTimeout(timer));
+		this.timers.clear();
+		this.pendingKinds.clear();
+	}
+
+	/**
+	 * Remember content the plugin is about to write, so saving it does not trigger a lint
+	 */
+	markOwnWrite(path: string, content: string): void {
+		this.ownWrites.set(path, content);
+	}
+
+	private isMarkdown(file: TAbstractFile): file is TFile {
+		return file instanceof TFile && file.extension === 'md';
+	}
+
+	private isActiveFile(file: TFile): boolean {
+		return this.plugin.app.workspace.getActiveFile()?.path === file.path;
+	}
+
+	private async onModify(file: TAbstractFile) {
+		if (!this.isMarkdown(file)) {
+			return;
+		}
+
+		const ownWrite = this.ownWrites.get(file.path);
+		if (ownWrite !== undefined) {
+			this.ownWrites.delete(file.path);
+			if (await this.plugin.app.vault.cachedRead(file) === ownWrite) {
+				if (this.isActiveFile(file)) {
+					this.queue(file, 'status', this.plugin.settings.lintOnSaveDelay);
+				}
+				return;
+			}
+		}
+
+		if (this.plugin.settings.lintOnSave) {
+			this.queue(file, 'save', this.plugin.settings.lintOnSaveDelay);
+		} else if (this.isActiveFile(file)) {
+			this.queue(file, 'status', this.plugin.settings.lintOnSaveDelay);
+		}
+	}
+
+	/**
+	 * Debounce runs per note: every new event restarts the wait. A pending run is
+	 * never downgraded, e.g. a new note saved right away is still linted as new.
+	 */
+	private queue(file: TFile, kind: RunKind, delay: number): void {
+		this.cancel(file.path);
+		const pending = this.pendingKinds.get(file.path);
+		if (!pending || RUN_KINDS.indexOf(kind) > RUN_KINDS.indexOf(pending)) {
+			this.pendingKinds.set(file.path, kind);
+		}
+		this.timers.set(file.path, window.setTimeout(() => {
+			const runKind = this.pendingKinds.get(file.path) || kind;
+			this.timers.delete(file.path);
+			this.pendingKinds.delete(file.path);
+			this.run(file, runKind).catch(error => console.error(`Vault Linter: automatic lint of ${file.path} failed:`, error));
+		}, delay));
+	}
+
+	private cancel(path: string): void {
+		const timer = this.timers.get(path);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+			this.timers.delete(path);
+		}
+	}
+
+	/**
+	 * Drop a pending run, e.g. when its note is deleted or renamed
+	 */
+	private forget(path: string): void {
+		this.cancel(path);
+		this.pendingKinds.delete(path);
+	}
+
+	/**
+	 * Lint a note and, if requested, write the fixes. The open editor is edited in place
+	 * so the cursor and scroll position stay where they were. The link index is only
+	 * rebuilt when files were added, removed or renamed; otherwise just this note's entry
+	 * is updated.
+	 */
+	private async run(file: TFile, kind: RunKind) {
+		if (!this.plugin.app.vault.getAbstractFileByPath(file.path)) {
+			return;
+		}
+		if (this.linkIndexStale) {
+			this.plugin.refreshLinkIndex();
+			this.linkIndexStale = false;
+		} else {
+			this.plugin.updateLinkIndex(file);
+		}
+		if (!this.plugin.isFileInScope(file)) {
+			this.updateStatus();
+			return;
+		}
+
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view && view.file?.path === file.path) {
+			const result = this.plugin.pipeline.lint(view.editor.getValue(), file.path);
+			// Saving the applied fixes queues a status run for the new content
+			if (kind === 'status' || !this.applyToEditor(view, result, kind)) {
+				this.updateStatus(result);
+			}
+			return;
+		}
+
+		if (kind !== 'status') {
+			const content = await this.plugin.app.vault.read(file);
+			const normalized = this.plugin.lintContent(content, file.path);
+			if (content !== normalized) {
+				await this.plugin.writeFile(file, normalized);
+			}
+		}
+	}
+
+	/**
+	 * Apply the fixes as editor changes, returning whether any were applied. On save,
+	 * changes touching the cursor line are held back so text being typed is not
+	 * rewritten; they are applied on a later save.
+	 */
+	private applyToEditor(view: MarkdownView, result: LintResult, kind: RunKind): boolean {
+		const editor = view.editor;
+		const content = editor.getValue();
+		if (content === result.normalized) {
+			return false;
+		}
+
+		const cursorLine = editor.getCursor().line + 1;
+		const hunks = computeHunks(diffLines(content, result.normalized), 0).filter(hunk => {
+			if (kind === 'create') {
+				return true;
+			}
+			// An insertion touches the lines on both sides of it
+			const first = hunk.oldStart;
+			const last = hunk.oldLines > 0 ? hunk.oldStart + hunk.oldLines - 1 : hunk.oldStart + 1;
+			return cursorLine < first || cursorLine > last;
+		});
+		if (hunks.length === 0) {
+			return false;
+		}
+
+		editor.transaction({
+			changes: hunksToEdits(content, hunks).map(edit => ({
+				from: editor.offsetToPos(edit.from),
+				to: editor.offsetToPos(edit.to),
+				text: edit.text
+			}))
+		});
+		// A new empty note gets its cursor below the inserted frontmatter
+		if (kind === 'create' && content.trim() === '') {
+			editor.setCursor(editor.offsetToPos(editor.getValue().length));
+		}
+		if (view.file) {
+			this.markOwnWrite(view.file.path, editor.getValue());
+		}
+		return true;
+	}
+
+	/**
+	 * Show whether the active note conforms: no pending fixes, lint errors or broken links.
+	 * A lint result of the note's current editor content is used instead of linting again.
+	 */
+	updateStatus(lintResult?: LintResult): void {
+		const file = this.plugin.app.workspace.getActiveFile();
+		const visible = this.plugin.settings.showStatusBar && !!file && file.extension === 'md';
+		this.statusBarEl.toggle(visible);
+		if (!visible || !file) {
+			return;
+		}
+
+		if (!this.plugin.isFileInScope(file)) {
+			this.statusBarEl.setText('Lint: excluded');
+			this.statusBarEl.setAttr('aria-label', `${file.path} is excluded from linting`);
+			return;
+		}
+
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view || view.file?.path !== file.path) {
+			return;
+		}
+		const content = view.editor.getValue();
+		const result = lintResult || this.plugin.pipeline.lint(content, file.path);
+		const errors = result.diagnostics.filter(diagnostic => !diagnostic.fix && diagnostic.type !== 'broken-link');
+		const problems = [
+			content !== result.normalized ? 'needs normalizing' : '',
+			errors.length > 0 ? `${errors.length} error(s)` : '',
+			result.brokenLinks.length > 0 ? `${result.brokenLinks.length} broken link(s)` : ''
+		].filter(problem => problem);
+
+		if (problems.length === 0) {
+			this.statusBarEl.setText('Lint: ✓');
+			this.statusBarEl.setAttr('aria-label', 'Note conforms to linting rules');
+		} else {
+			this.statusBarEl.setText(`Lint: ✗ ${problems.join(', ')}`);
+			this.statusBarEl.setAttr('aria-label', 'Run "Dry run: Current file" for details');
+		}
+	}
+}
@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import { parseVaultConfig } from '../engine/customRules';
+import { normalizeReportsFolder } from '../engine/history';
+import { Diagnostic, LineMap } from '../engine/diagnostics';
+import { createLinkIndexEntry, VaultLinkIndex } from '../engine/linkIndex';
+import { FIXES_NOT_SETTLED, NormalizationPipeline } from '../engine/normalize';
+import { ChangeReport, generateChangeReport } from '../engine/report';
+import {
+	createReportEntries,
+	formatEntriesAsCsv,
+	formatEntriesAsJson,
+	formatEntriesAsSarif,
+	formatVaultReport,
+	REPORT_FORMATS,
+	ReportEntry,
+	ReportFormat,
+	ReportFormatOptions
+} from '../engine/reportFormats';
+import { isInScope, parseIgnoreFile } from '../engine/scope';
+import { IGNORE_FILE, VAULT_CONFIG_FILE, VaultLinterSettings } from '../settings';
+import { listVaultFiles, loadSettings, PLUGIN_DATA_FILE, readVaultFile, toVaultPath, writeVaultFile } from './vault';
+
+/**
+ * Command line interface
+ * Lints a vault folder without Obsidian, with the same pipeline and settings as the plugin:
+ *
+ *   vault-linter check  <vault> [files...]   report problems
+ *   vault-linter fix    <vault> [files...]   normalize notes, then report what is left
+ *   vault-linter report <vault>              print the dry run report
+ *
+ * Exits with 1 when errors or warnings remain and 2 on usage or configuration errors.
+ */
+
+// Plugin version from manifest.json, defined by esbuild.cli.mjs
+const TOOL_VERSION = process.env.VAULT_LINTER_VERSION;
+
+const USAGE = `Usage: vault-linter <check|fix|report> <vault-path> [files...] [options]
+
+Commands:
+  check     Report problems in the vault's notes
+  fix       Normalize the notes, then report the problems that need manual fixing
+  report    Print the dry run report of the whole vault
+
+Options:
+  --config <file>         Settings JSON with the keys of the plugin's data.json
+                          (default: <vault>/${PLUGIN_DATA_FILE})
+  --format <format>       Output format: human (default for check and fix), markdown
+                          (default for report, report only), json, sarif or csv
+  --output <file>         Write the output to a file instead of standard output
+  -h, --help              Show this help
+
+Files limit check and fix to the given notes, e.g. the staged files in a pre-commit hook;
+paths are relative to the working directory or to the vault.
+Exit codes: 0 no problems, 1 errors or warnings found, 2 usage or configuration error.`;
+
+type Command = 'check' | 'fix' | 'report';
+type OutputFormat = 'human' | ReportFormat;
+
+interface CliOptions {
+	command: Command;
+	vaultPath: string;
+	files: string[];
+	configPath?: string;
+	format: OutputFormat;
+	outputPath?: string;
+}
+
+/**
+ * Problems of one note, with whether `fix` rewrote it
+ */
+interface FileResult {
+	filePath: string;
+	content: string;
+	diagnostics: Diagnostic[];
+	fixed: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | null {
+	const positional: string[] = [];
+	let configPath: string | undefined;
+	let format: OutputFormat | undefined;
+	let outputPath: string | undefined;
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const value = () => {
+			if (i + 1 >= args.length) {
+				throw new UsageError(`${arg} needs a value`);
+			}
+			return args[++i];
+		};
+		if (arg === '-h' || arg === '--help') {
+			return null;
+		} else if (arg === '--config') {
+			configPath = value();
+		} else if (arg === '--format') {
+			const requested = value();
+			if (requested !== 'human' && !REPORT_FORMATS.includes(requested as ReportFormat)) {
+				throw new UsageError(`Unknown format "${requested}"`);
+			}
+			format = requested as OutputFormat;
+		} else if (arg === '--output') {
+			outputPath = value();
+		} else if (arg.startsWith('-')) {
+			throw new UsageError(`Unknown option ${arg}`);
+		} else {
+			positional.push(arg);
+		}
+	}
+
+	const [command, vaultPath, ...files] = positional;
+	if (command !== 'check' && command !== 'fix' && command !== 'report') {
+		throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+	}
+	if (!vaultPath) {
+		throw new UsageError('Missing vault path');
+	}
+	if (!fs.existsSync(vaultPath) || !fs.statSync(vaultPath).isDirectory()) {
+		throw new UsageError(`${vaultPath} is not a folder`);
+	}
+	if (format === 'markdown' && command !== 'report') {
+		throw new UsageError('The markdown format is only available for report');
+	}
+	if (command === 'report' && (!format || format === 'human')) {
+		format = 'markdown';
+	}
+	return { command, vaultPath, files, configPath, format: format || 'human', outputPath };
+}
+
+/**
+ * The plugin's pipeline for a vault on disk: settings, custom rules, ignore file and link index
+ */
+class VaultLinter {
+	readonly pipeline: NormalizationPipeline;
+	readonly notes: string[];
+	private contents = new Map<string, string>();
+	private settings: VaultLinterSettings;
+	private ignorePatterns: string[];
+	private options: CliOptions;
+
+	constructor(options: CliOptions) {
+		this.options = options;
+		this.settings = loadSettings(options.vaultPath, options.configPath);
+		this.pipeline = new NormalizationPipeline(this.settings);
+
+		const config = readVaultFile(options.vaultPath, VAULT_CONFIG_FILE);
+		const parsed = config === null ? { customRules: [], errors: [] } : parseVaultConfig(config);
+		this.pipeline.setVaultCustomRules(parsed.customRules);
+		for (const error of [...parsed.errors, ...this.pipeline.customRuleErrors]) {
+			console.error(`warning: ${error}`);
+		}
+
+		const ignoreFile = readVaultFile(options.vaultPath, IGNORE_FILE);
+		this.ignorePatterns = ignoreFile === null ? [] : parseIgnoreFile(ignoreFile);
+
+		const files = listVaultFiles(options.vaultPath);
+		this.notes = files.filter(file => file.toLowerCase().endsWith('.md'));
+		this.pipeline.setLinkIndex(new VaultLinkIndex(files.map(file =>
+			createLinkIndexEntry(file, file.toLowerCase().endsWith('.md') ? this.read(file) : null))));
+	}
+
+	read(filePath: string): string {
+		let content = this.contents.get(filePath);
+		if (content === undefined) {
+			content = readVaultFile(this.options.vaultPath, filePath) || '';
+			this.contents.set(filePath, content);
+		}
+		return content;
+	}
+
+	write(filePath: string, content: string): void {
+		writeVaultFile(this.options.vaultPath, filePath, content);
+		this.contents.set(filePath, content);
+	}
+
+	isInScope(filePath: string): boolean {
+		return isInScope(filePath, this.settings, this.ignorePatterns, [`${normalizeReportsFolder(this.settings.reportsFolder)}/`]);
+	}
+
+	/**
+	 * Options of every report format: notes left out by the scope settings, rule
+	 * descriptions and the tool version
+	 */
+	reportOptions(): ReportFormatOptions {
+		return {
+			excludedFiles: this.notes.filter(note => !this.isInScope(note)).length,
+			describeRule: ruleId => this.pipeline.describeRule(ruleId),
+			toolVersion: TOOL_VERSION
+		};
+	}
+
+	/**
+	 * Notes to lint: the files given on the command line, or the whole vault
+	 */
+	targets(): string[] {
+		if (this.options.files.length === 0) {
+			return this.notes.filter(note => this.isInScope(note));
+		}
+		// Paths are taken relative to the working directory, or else to the vault
+		const targets: string[] = [];
+		for (const file of this.options.files) {
+			const note = [toVaultPath(this.options.vaultPath, file), file.replace(/\\/g, '/')]
+				.find(candidate => candidate !== null && this.notes.includes(candidate));
+			if (note && this.isInScope(note)) {
+				targets.push(note);
+			}
+		}
+		return targets;
+	}
+}
+
+/**
+ * Whether a diagnostic fails the run; info diagnostics are only reported
+ */
+function isViolation(diagnostic: Diagnostic): boolean {
+	return diagnostic.severity !== 'info';
+}
+
+/**
+ * Machine-readable output of check and fix, with the same schemas as vault reports
+ */
+function formatResults(linter: VaultLinter, results: FileResult[], format: ReportFormat): string {
+	const entries = ([] as ReportEntry[]).concat(...results.map(result =>
+		createReportEntries(result.filePath, result.content, result.diagnostics)));
+	if (format === 'sarif') {
+		return formatEntriesAsSarif(entries, linter.reportOptions());
+	}
+	return format === 'csv' ? formatEntriesAsCsv(entries) : formatEntriesAsJson(entries, results.length, linter.reportOptions());
+}
+
+/**
+ * Problems grouped by note, one line per problem:
+ *   12:5  warning  Change "#Bad" to "#bad"  tags
+ */
+function formatHuman(results: FileResult[], command: Command): string {
+	const output: string[] = [];
+	const all = ([] as Diagnostic[]).concat(...results.map(result => result.diagnostics));
+	const fixedCount = results.filter(result => result.fixed).length;
+
+	for (const result of results.filter(result => result.diagnostics.length > 0)) {
+		const lines = new LineMap(result.content);
+		output.push(result.filePath);
+		for (const diagnostic of result.diagnostics) {
+			const column = diagnostic.from - lines.lineStart(diagnostic.lineNumber) + 1;
+			output.push(`  ${diagnostic.lineNumber}:${column}  ${diagnostic.severity}  ${diagnostic.message}  ${diagnostic.ruleId}`);
+		}
+		output.push('');
+	}
+
+	if (command === 'fix') {
+		output.push(`Fixed ${fixedCount} of ${results.length} note(s)`);
+	}
+	if (all.length === 0) {
+		output.push(`✓ ${results.length} note(s) checked, no problems`);
+		return output.join('\n');
+	}
+
+	const count = (severity: string) => all.filter(diagnostic => diagnostic.severity === severity).length;
+	const notes = results.filter(result => result.diagnostics.length > 0).length;
+	output.push(`✗ ${all.length} problem(s) (${count('error')} errors, ${count('warning')} warnings, ${count('info')} info) in ${notes} note(s)`);
+	const fixable = all.filter(diagnostic => diagnostic.fix).length;
+	if (fixable > 0) {
+		output.push(`  ${fixable} can be fixed with "vault-linter fix"`);
+	}
+	return output.join('\n');
+}
+
+/**
+ * check and fix: lint the target notes, writing the normalized content for fix
+ */
+function runLint(linter: VaultLinter, options: CliOptions): FileResult[] {
+	return linter.targets().map(filePath => {
+		const original = linter.read(filePath);
+		let content = original;
+		if (options.command === 'fix') {
+			const result = linter.pipeline.lint(original, filePath);
+			// Partly fixed content is not written; the unsettled rules are reported instead
+			if (result.diagnostics.some(diagnostic => diagnostic.type === FIXES_NOT_SETTLED)) {
+				return { filePath, content: original, diagnostics: result.diagnostics, fixed: false };
+			}
+			content = result.normalized;
+			if (content !== original) {
+				linter.write(filePath, content);
+			}
+		}
+		return { filePath, content, diagnostics: linter.pipeline.check(content, filePath).diagnostics, fixed: content !== original };
+	});
+}
+
+/**
+ * report: the dry run report of the vault, in any report format
+ */
+function runReport(linter: VaultLinter, options: CliOptions): { text: string; failed: boolean } {
+	const targets = linter.targets();
+	const reports: ChangeReport[] = targets.map(filePath => {
+		const content = linter.read(filePath);
+		const result = linter.pipeline.lint(content, filePath);
+		return generateChangeReport(filePath, filePath.split('/').pop() || filePath, content, result.normalized,
+			result.diagnostics, result.brokenLinks, result.suppressed, ruleId => linter.pipeline.describeRule(ruleId));
+	});
+
+	const text = formatVaultReport(reports, options.format as ReportFormat, linter.reportOptions());
+	const failed = reports.some(report => report.changes.length > 0 || report.brokenLinks.length > 0 ||
+		report.errors.some(error => error.severity !== 'info'));
+	return { text, failed };
+}
+
+export function main(args: string[]): number {
+	let options: CliOptions | null;
+	try {
+		options = parseArgs(args);
+	} catch (error) {
+		console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+		return 2;
+	}
+	if (!options) {
+		console.log(USAGE);
+		return 0;
+	}
+
+	let linter: VaultLinter;
+	try {
+		linter = new VaultLinter(options);
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		return 2;
+	}
+
+	if (options.command === 'report') {
+		const { text, failed } = runReport(linter, options);
+		if (options.outputPath) {
+			fs.writeFileSync(options.outputPath, text, 'utf8');
+			console.log(`Report written to ${options.outputPath}`);
+		} else {
+			console.log(text);
+		}
+		return failed ? 1 : 0;
+	}
+
+	const results = runLint(linter, options);
+	const text = options.format === 'human'
+		? formatHuman(results, options.command)
+		: formatResults(linter, results, options.format);
+	if (options.outputPath) {
+		fs.writeFileSync(options.outputPath, text, 'utf8');
+	} else {
+		console.log(text);
+	}
+	return results.some(result => result.diagnostics.some(isViolation)) ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
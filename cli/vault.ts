@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_SETTINGS, VaultLinterSettings } from '../settings';
+
+/**
+ * Vault access for the command line
+ * Reads a vault folder from disk the way Obsidian sees it: vault-relative paths with
+ * forward slashes, hidden files and folders (.obsidian, .git, .trash) left out
+ */
+
+// Where Obsidian stores the plugin's settings, relative to the vault
+export const PLUGIN_DATA_FILE = '.obsidian/plugins/obsidian-vault-linter/data.json';
+
+/**
+ * Every file of the vault as a vault-relative path, sorted
+ */
+export function listVaultFiles(vaultPath: string): string[] {
+	const files: string[] = [];
+
+	const walk = (folder: string, prefix: string) => {
+		for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+			if (entry.name.startsWith('.')) {
+				continue;
+			}
+			const relative = prefix === '' ? entry.name : `${prefix}/${entry.name}`;
+			if (entry.isDirectory()) {
+				walk(path.join(folder, entry.name), relative);
+			} else if (entry.isFile()) {
+				files.push(relative);
+			}
+		}
+	};
+
+	walk(vaultPath, '');
+	return files.sort();
+}
+
+export function readVaultFile(vaultPath: string, filePath: string): string | null {
+	const absolute = path.join(vaultPath, filePath);
+	return fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf8') : null;
+}
+
+export function writeVaultFile(vaultPath: string, filePath: string, content: string): void {
+	const absolute = path.join(vaultPath, filePath);
+	fs.mkdirSync(path.dirname(absolute), { recursive: true });
+	fs.writeFileSync(absolute, content, 'utf8');
+}
+
+/**
+ * Turn a path given on the command line (relative to the working directory) into
+ * a vault-relative path, or null when it lies outside the vault
+ */
+export function toVaultPath(vaultPath: string, filePath: string): string | null {
+	const relative = path.relative(path.resolve(vaultPath), path.resolve(filePath));
+	if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+		return null;
+	}
+	return relative.split(path.sep).join('/');
+}
+
+/**
+ * Settings from a JSON file (the plugin's data.json or a config file with the same keys),
+ * on top of the defaults. Without a config file the vault's data.json is used if present.
+ */
+export function loadSettings(vaultPath: string, configPath?: string): VaultLinterSettings {
+	const file = configPath || path.join(vaultPath, PLUGIN_DATA_FILE);
+	if (!configPath && !fs.existsSync(file)) {
+		return { ...DEFAULT_SETTINGS, rules: { ...DEFAULT_SETTINGS.rules } };
+	}
+
+	let data;
+	try {
+		data = JSON.parse(fs.readFileSync(file, 'utf8'));
+	} catch (error) {
+		throw new Error(`Cannot read settings from ${file}: ${error instanceof Error ? error.message : error}`);
+	}
+
+	const settings: VaultLinterSettings = Object.assign({}, DEFAULT_SETTINGS, data);
+	settings.rules = { ...settings.rules };
+	return settings;
+}
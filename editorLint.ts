@@ -0,0 +1,67 @@
+import { Action, Diagnostic as EditorDiagnostic, linter } from '@codemirror/lint';
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import { Diagnostic } from './engine/diagnostics';
+import { computeHunks, diffLines, hunksToEdits, TextEdit } from './engine/diff';
+import VaultLinterPlugin from './main';
+
+// Milliseconds of editor inactivity before the note is linted again
+const LINT_DELAY = 750;
+
+/**
+ * Apply edits given relative to the start of a diagnostic at its current position
+ */
+function applyEdits(view: EditorView, edits: TextEdit[], origin: number, from: number) {
+	view.dispatch({
+		changes: edits.map(edit => ({ from: from + edit.from - origin, to: from + edit.to - origin, insert: edit.text }))
+	});
+}
+
+/**
+ * Quick fixes of a diagnostic: its own edit, and every change of the same rule
+ */
+function createActions(plugin: VaultLinterPlugin, filePath: string, diagnostic: Diagnostic): Action[] {
+	if (!diagnostic.fix) {
+		return [];
+	}
+	const fix = diagnostic.fix;
+
+	return [
+		{
+			name: 'Fix',
+			apply: (view, from) => applyEdits(view, fix, diagnostic.from, from)
+		},
+		{
+			name: `Fix all ${diagnostic.ruleId}`,
+			apply: view => {
+				const content = view.state.doc.toString();
+				const fixed = plugin.pipeline.fixRule(content, filePath, diagnostic.ruleId);
+				applyEdits(view, hunksToEdits(content, computeHunks(diffLines(content, fixed), 0)), 0, 0);
+			}
+		}
+	];
+}
+
+/**
+ * Editor extension showing the pipeline's diagnostics in Markdown editors: each problem
+ * is underlined, the tooltip shows its rule ID and message, and fixable problems offer
+ * quick fixes that apply only that rule's change
+ */
+export function createEditorLinter(plugin: VaultLinterPlugin): Extension {
+	return linter(view => {
+		const file = view.state.field(editorInfoField, false)?.file;
+		if (!plugin.settings.editorDiagnostics || !file || file.extension !== 'md' || !plugin.isFileInScope(file)) {
+			return [];
+		}
+
+		return plugin.pipeline.check(view.state.doc.toString(), file.path).diagnostics.map((diagnostic): EditorDiagnostic => ({
+			from: diagnostic.from,
+			to: diagnostic.to,
+			severity: diagnostic.severity,
+			source: diagnostic.ruleId,
+			message: diagnostic.message,
+			actions: createActions(plugin, file.path, diagnostic)
+		}));
+	}, { delay: LINT_DELAY });
+}
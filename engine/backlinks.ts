@@ -1,4 +1,17 @@
 import { VaultLinterSettings } from '../settings';
+import { VaultLinkIndex } from './linkIndex';
+import { LintError } from './report';
+import { detectEmbeds, detectWikilinks, lineNumberAt, scanSegments, transformSegments } from './scan';
+
+/**
+ * A wikilink split into its parts: [[path#subpath|alias]]
+ */
+interface WikilinkParts {
+	path: string;
+	subpath: string;
+	aliasSeparator: string;
+	alias: string | null;
+}
 
 /**
  * Backlinks (wikilink) insertion module
@@ -6,71 +19,112 @@ import { VaultLinterSettings } from '../settings';
  */
 export class WikilinkInserter {
 	settings: VaultLinterSettings;
+	linkIndex: VaultLinkIndex | null;
 
-	constructor(settings: VaultLinterSettings) {
+	constructor(settings: VaultLinterSettings, linkIndex: VaultLinkIndex | null = null) {
 		this.settings = settings;
+		this.linkIndex = linkIndex;
 	}
 
 	/**
-	 * Extract all wikilinks from content
+	 * Extract all wikilink and embed targets from content (outside code and comments)
 	 */
 	extractWikilinks(content: string): string[] {
-		const wikilinks: string[] = [];
-		const wikilinkRegex = /\[\[([^\]]+)\]\]/g;
-		let match;
-		
-		while ((match = wikilinkRegex.exec(content)) !== null) {
-			wikilinks.push(match[1]);
-		}
+		return [...detectWikilinks(content), ...detectEmbeds(content)]
+			.sort((a, b) => a.start - b.start)
+			.map(range => range.content.replace(/^!?\[\[/, '').replace(/\]\]$/, ''));
+	}
 
-		return wikilinks;
+	/**
+	 * Split the inside of a wikilink into path, subpath and alias.
+	 * Inside tables the alias separator is escaped as \|, which is preserved.
+	 */
+	private splitWikilink(inner: string): WikilinkParts {
+		const aliasMatch = inner.match(/\\?\|/);
+		const target = aliasMatch ? inner.slice(0, aliasMatch.index) : inner;
+		const alias = aliasMatch ? inner.slice(aliasMatch.index! + aliasMatch[0].length).trim() : null;
+		const hashIndex = target.indexOf('#');
+
+		return {
+			path: (hashIndex === -1 ? target : target.slice(0, hashIndex)).trim(),
+			subpath: hashIndex === -1 ? '' : target.slice(hashIndex).trim(),
+			aliasSeparator: aliasMatch ? aliasMatch[0] : '|',
+			alias
+		};
 	}
 
 	/**
-	 * Normalize wikilink path based on settings
+	 * Normalize wikilink path based on settings.
+	 * Links are only rewritten when they resolve to exactly one file in the vault;
+	 * ambiguous, broken and same-note links are left as written.
 	 */
-	normalizeWikilinkPath(path: string): string {
-		if (!this.settings.safeWikilinkInsertion) {
+	normalizeWikilinkPath(path: string, sourcePath: string): string {
+		if (!this.settings.safeWikilinkInsertion || !this.linkIndex) {
 			return path;
 		}
 
-		// Handle alias format: [[path|alias]]
-		const parts = path.split('|');
-		let linkPath = parts[0].trim();
-		const alias = parts.length > 1 ? parts[1].trim() : null;
-
-		// Apply path style normalization
-		switch (this.settings.wikilinkStyle) {
-			case 'shortest':
-				// Remove path components, keep only filename
-				linkPath = linkPath.split('/').pop() || linkPath;
-				// Remove extension if present
-				linkPath = linkPath.replace(/\.md$/, '');
-				break;
-			case 'relative':
-				// Keep as-is for now (would need vault context to compute relative paths)
-				break;
-			case 'absolute':
-				// Keep as-is for now (would need vault context to compute absolute paths)
-				break;
+		const parts = this.splitWikilink(path);
+		if (parts.path === '') {
+			return path;
+		}
+
+		const resolution = this.linkIndex.resolve(parts.path, sourcePath);
+		if (resolution.status !== 'resolved') {
+			return path;
+		}
+
+		const linkPath = this.linkIndex.formatLinkPath(resolution.path, sourcePath, this.settings.wikilinkStyle);
+
+		// Reconstruct with subpath and alias if present
+		const target = linkPath + parts.subpath;
+		return parts.alias !== null ? `${target}${parts.aliasSeparator}${parts.alias}` : target;
+	}
+
+	/**
+	 * Report links that match more than one file; they cannot be normalized safely
+	 */
+	validate(content: string, filePath: string): LintError[] {
+		if (!this.settings.safeWikilinkInsertion || !this.linkIndex) {
+			return [];
+		}
+
+		const errors: LintError[] = [];
+		for (const segment of scanSegments(content)) {
+			if (segment.type !== 'wikilink' && segment.type !== 'embed') {
+				continue;
+			}
+			const inner = segment.content.replace(/^!?\[\[/, '').replace(/\]\]$/, '');
+			const parts = this.splitWikilink(inner);
+			if (parts.path === '') {
+				continue;
+			}
+			const resolution = this.linkIndex.resolve(parts.path, filePath);
+			if (resolution.status === 'ambiguous') {
+				errors.push({
+					type: 'wikilink-ambiguous',
+					message: `Link [[${parts.path}]] matches ${resolution.candidates.length} files: ${resolution.candidates.join(', ')}`,
+					lineNumber: lineNumberAt(content, segment.start)
+				});
+			}
 		}
 
-		// Reconstruct with alias if present
-		return alias ? `${linkPath}|${alias}` : linkPath;
+		return errors;
 	}
 
 	/**
 	 * Validate and normalize wikilinks in content (safe backlink insertion)
 	 */
-	normalize(content: string): string {
+	normalize(content: string, filePath: string): string {
 		if (!this.settings.safeWikilinkInsertion) {
 			return content;
 		}
 
-		// Replace wikilinks with normalized versions
-		return content.replace(/\[\[([^\]]+)\]\]/g, (match, path) => {
-			const normalized = this.normalizeWikilinkPath(path);
-			return `[[${normalized}]]`;
+		// Replace wikilinks and embeds with normalized versions; links in code are left alone
+		return transformSegments(content, ['wikilink', 'embed'], text => {
+			return text.replace(/\[\[([^\]]+)\]\]/, (match, path) => {
+				const normalized = this.normalizeWikilinkPath(path, filePath);
+				return `[[${normalized}]]`;
+			});
 		});
 	}
 }
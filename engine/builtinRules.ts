@@ -0,0 +1,60 @@
+import { WikilinkInserter } from './backlinks';
+import { FormattingNormalizer } from './format';
+import { FrontmatterEnforcer } from './frontmatter';
+import { HeadingRules } from './headings';
+import { Rule, RuleRegistry } from './rules';
+import { parseSuppressions } from './suppress';
+import { TagRules } from './tags';
+
+/**
+ * Built-in rules
+ * The existing modules, registered in pipeline order: frontmatter → formatting → headings → tags → wikilinks
+ */
+export const BUILTIN_RULES: Rule[] = [
+	{
+		id: 'frontmatter',
+		description: 'Frontmatter exists, follows the template and matches the schema',
+		defaultSeverity: 'error',
+		check: (content, context) => new FrontmatterEnforcer(context.settings).validate(content, context.filePath),
+		fix: (content, context) => new FrontmatterEnforcer(context.settings).enforce(content, context.filePath)
+	},
+	{
+		id: 'formatting',
+		description: 'Line endings, whitespace, blank lines, lists, code fences and emphasis',
+		defaultSeverity: 'warning',
+		check: () => [],
+		fix: (content, context) => new FormattingNormalizer(context.settings).normalize(content)
+	},
+	{
+		id: 'headings',
+		description: 'Heading hierarchy, syntax and spacing',
+		defaultSeverity: 'warning',
+		check: (content, context) => new HeadingRules(context.settings).validate(content),
+		fix: (content, context) => new HeadingRules(context.settings).normalize(content)
+	},
+	{
+		id: 'tags',
+		description: 'Tag format and taxonomy (synonyms, renames, allowed tags)',
+		defaultSeverity: 'warning',
+		check: (content, context) => new TagRules(context.settings).validate(content, parseSuppressions(content)),
+		fix: (content, context) => new TagRules(context.settings).enforce(content, parseSuppressions(content))
+	},
+	{
+		id: 'wikilinks',
+		description: 'Wikilink path style; links matching several files are reported',
+		defaultSeverity: 'warning',
+		check: (content, context) => new WikilinkInserter(context.settings, context.linkIndex).validate(content, context.filePath),
+		fix: (content, context) => new WikilinkInserter(context.settings, context.linkIndex).normalize(content, context.filePath)
+	}
+];
+
+/**
+ * Create a registry holding the built-in rules
+ */
+export function createDefaultRegistry(): RuleRegistry {
+	const registry = new RuleRegistry();
+	for (const rule of BUILTIN_RULES) {
+		registry.register(rule);
+	}
+	return registry;
+}
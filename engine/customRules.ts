@@ -0,0 +1,168 @@
+import { CustomRuleDefinition } from '../settings';
+import { matchesAnyGlob } from './glob';
+import { LintError } from './report';
+import { Rule, RuleContext } from './rules';
+import { detectHeadings, lineNumberAt, scanSegments } from './scan';
+
+/**
+ * Custom rules module
+ * Turns user-defined regex and find/replace rules from settings or the vault's
+ * .vault-linter.json into registry rules with the ID "custom/<id>"
+ */
+
+export const CUSTOM_RULE_PREFIX = 'custom/';
+
+interface Range {
+	start: number;
+	end: number;
+}
+
+/**
+ * Content ranges a rule may read and rewrite. Code, math, comments, URLs and links
+ * are never included, the same protection the built-in rules get.
+ */
+function scopeRanges(content: string, scope: CustomRuleDefinition['scope']): Range[] {
+	const segments = scanSegments(content);
+
+	if (scope === 'frontmatter') {
+		const frontmatter = segments.find(segment => segment.type === 'frontmatter');
+		if (!frontmatter) {
+			return [];
+		}
+		// Between the opening and closing fence lines
+		const start = frontmatter.start + frontmatter.content.indexOf('\n') + 1;
+		const end = frontmatter.start + frontmatter.content.lastIndexOf('\n');
+		return start < end ? [{ start, end }] : [];
+	}
+
+	const textRanges = segments.filter(segment => segment.type === 'text');
+	if (scope !== 'headings') {
+		return textRanges;
+	}
+
+	const ranges: Range[] = [];
+	for (const heading of detectHeadings(content)) {
+		for (const text of textRanges) {
+			const start = Math.max(heading.start, text.start);
+			const end = Math.min(heading.end, text.end);
+			if (start < end) {
+				ranges.push({ start, end });
+			}
+		}
+	}
+	return ranges;
+}
+
+/**
+ * Build the regular expression of a definition; always global, never sticky
+ */
+function compilePattern(definition: CustomRuleDefinition): RegExp {
+	const flags = (definition.flags || '').replace(/[gy]/g, '');
+	return new RegExp(definition.pattern, flags + 'g');
+}
+
+/**
+ * Check a definition before it is registered; returns a problem description or null
+ */
+export function validateCustomRule(definition: CustomRuleDefinition): string | null {
+	if (!definition || typeof definition.id !== 'string' || !/^[\w\-/.]+$/.test(definition.id)) {
+		return 'Custom rule needs an "id" made of letters, digits, "-", "_", "." or "/"';
+	}
+	if (typeof definition.pattern !== 'string' || definition.pattern === '') {
+		return `Custom rule "${definition.id}" needs a "pattern"`;
+	}
+	if (definition.scope && !['body', 'frontmatter', 'headings'].includes(definition.scope)) {
+		return `Custom rule "${definition.id}" has an unknown scope "${definition.scope}"`;
+	}
+	try {
+		compilePattern(definition);
+	} catch (error) {
+		return `Custom rule "${definition.id}" has an invalid pattern: ${error instanceof Error ? error.message : error}`;
+	}
+	return null;
+}
+
+/**
+ * Find the matches of a rule in content, as line numbers
+ */
+function findMatchLines(content: string, definition: CustomRuleDefinition): number[] {
+	const regex = compilePattern(definition);
+	const lines: number[] = [];
+
+	for (const range of scopeRanges(content, definition.scope)) {
+		const text = content.slice(range.start, range.end);
+		regex.lastIndex = 0;
+		let match;
+		while ((match = regex.exec(text)) !== null) {
+			const line = lineNumberAt(content, range.start + match.index);
+			if (!lines.includes(line)) {
+				lines.push(line);
+			}
+			if (match[0] === '') {
+				regex.lastIndex++;
+			}
+		}
+	}
+
+	return lines.sort((a, b) => a - b);
+}
+
+/**
+ * Create a registry rule from a user definition.
+ * Rules with a replacement fix their matches; rules without one only report them.
+ */
+export function createCustomRule(definition: CustomRuleDefinition): Rule {
+	const id = CUSTOM_RULE_PREFIX + definition.id;
+	const applies = (context: RuleContext) =>
+		!definition.folders || definition.folders.length === 0 || matchesAnyGlob(context.filePath, definition.folders);
+	const isReportOnly = typeof definition.replacement !== 'string';
+
+	return {
+		id,
+		description: definition.message || `Custom rule ${definition.pattern}`,
+		defaultSeverity: definition.severity || 'warning',
+		check: (content, context): LintError[] => {
+			if (!isReportOnly || !applies(context)) {
+				return [];
+			}
+			return findMatchLines(content, definition).map(lineNumber => ({
+				type: id,
+				message: definition.message || `Matches ${definition.pattern}`,
+				lineNumber
+			}));
+		},
+		fix: isReportOnly ? undefined : (content, context) => {
+			if (!applies(context)) {
+				return content;
+			}
+			const regex = compilePattern(definition);
+			let result = content;
+			// Replace from the end so earlier offsets stay valid
+			for (const range of scopeRanges(content, definition.scope).sort((a, b) => b.start - a.start)) {
+				const replaced = result.slice(range.start, range.end).replace(regex, definition.replacement!);
+				result = result.slice(0, range.start) + replaced + result.slice(range.end);
+			}
+			return result;
+		}
+	};
+}
+
+/**
+ * Read the custom rules of a .vault-linter.json file
+ */
+export function parseVaultConfig(json: string): { customRules: CustomRuleDefinition[]; errors: string[] } {
+	let config;
+	try {
+		config = JSON.parse(json);
+	} catch (error) {
+		return { customRules: [], errors: [`.vault-linter.json is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+	}
+
+	if (!config || config.customRules === undefined) {
+		return { customRules: [], errors: [] };
+	}
+	if (!Array.isArray(config.customRules)) {
+		return { customRules: [], errors: ['.vault-linter.json: "customRules" must be a list'] };
+	}
+	return { customRules: config.customRules, errors: [] };
+}
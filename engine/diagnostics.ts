@@ -0,0 +1,282 @@
+import { computeHunks, DiffHunk, diffLines, hunksToEdits, TextEdit } from './diff';
+import { Severity } from './rules';
+
+/**
+ * Diagnostics module
+ * Positions problems in a note: each change a rule's fix makes becomes a diagnostic
+ * carrying the edit that resolves it alone; problems found by checks cover their line
+ */
+
+export interface Diagnostic {
+	ruleId: string;
+	// Kind of problem, e.g. 'heading-skipped-level'; 'fix' for changes a rule's fix makes
+	type: string;
+	severity: Severity;
+	message: string;
+	// Character offsets in the linted content
+	from: number;
+	to: number;
+	// 1-based line of `from`
+	lineNumber: number;
+	// Edits of the linted content that resolve this problem, applied together
+	fix?: TextEdit[];
+}
+
+// Longest text quoted in a diagnostic message
+const MAX_SNIPPET_LENGTH = 40;
+
+/**
+ * Start offsets of every line, for mapping between offsets and line numbers
+ */
+export class LineMap {
+	private starts: number[] = [0];
+	private length: number;
+
+	constructor(content: string) {
+		for (let i = 0; i < content.length; i++) {
+			if (content.charCodeAt(i) === 10) {
+				this.starts.push(i + 1);
+			}
+		}
+		this.length = content.length;
+	}
+
+	/**
+	 * 1-based line containing an offset
+	 */
+	lineAt(offset: number): number {
+		let low = 0;
+		let high = this.starts.length - 1;
+		while (low < high) {
+			const middle = Math.ceil((low + high) / 2);
+			if (this.starts[middle] <= offset) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		return low + 1;
+	}
+
+	lineStart(lineNumber: number): number {
+		return this.starts[Math.min(Math.max(lineNumber, 1), this.starts.length) - 1];
+	}
+
+	/**
+	 * Offset of the end of a line, before its line terminator
+	 */
+	lineEnd(content: string, lineNumber: number): number {
+		const end = lineNumber < this.starts.length ? this.starts[lineNumber] - 1 : this.length;
+		return end > this.lineStart(lineNumber) && content[end - 1] === '\r' ? end - 1 : end;
+	}
+}
+
+/**
+ * Shrink an edit to the characters that actually change
+ */
+function narrowEdit(content: string, edit: TextEdit): TextEdit {
+	const old = content.slice(edit.from, edit.to);
+	let prefix = 0;
+	while (prefix < old.length && prefix < edit.text.length && old[prefix] === edit.text[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < old.length - prefix &&
+		suffix < edit.text.length - prefix &&
+		old[old.length - 1 - suffix] === edit.text[edit.text.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	return {
+		from: edit.from + prefix,
+		to: edit.to - suffix,
+		text: edit.text.slice(prefix, edit.text.length - suffix)
+	};
+}
+
+/**
+ * Range to underline for an edit: the words it touches within a line, or the whole
+ * line for insertions and whitespace-only changes
+ */
+function highlightRange(content: string, lines: LineMap, edit: TextEdit): { from: number; to: number } {
+	const line = lines.lineAt(edit.from);
+	const lineStart = lines.lineStart(line);
+	const lineEnd = lines.lineEnd(content, line);
+
+	if (edit.to > lineEnd + 1 && /\S/.test(content.slice(edit.from, edit.to))) {
+		return { from: edit.from, to: edit.to };
+	}
+
+	let from = edit.from;
+	let to = Math.min(edit.to, lineEnd);
+	while (from > lineStart && /\S/.test(content[from - 1])) {
+		from--;
+	}
+	while (to < lineEnd && /\S/.test(content[to])) {
+		to++;
+	}
+
+	if (!/\S/.test(content.slice(from, to))) {
+		// Nothing visible to underline: mark the line, or the one before a blank line
+		const target = lineEnd === lineStart && line > 1 && edit.from === lineStart ? line - 1 : line;
+		return { from: lines.lineStart(target), to: lines.lineEnd(content, target) };
+	}
+	return { from, to };
+}
+
+/**
+ * Quote a piece of text for a message
+ */
+function snippet(text: string): string {
+	if (text === '\r') {
+		return 'CRLF line ending';
+	}
+	if (text.trim() === '') {
+		return text.includes('\n') ? 'blank line(s)' : 'whitespace';
+	}
+	const lines = text.trim().split(/\r?\n/);
+	const shortened = lines[0].length > MAX_SNIPPET_LENGTH ? lines[0].slice(0, MAX_SNIPPET_LENGTH) + '…' : lines[0];
+	return lines.length > 1 ? `"${shortened}" … (${lines.length} lines)` : `"${shortened}"`;
+}
+
+/**
+ * Describe what an edit does, e.g. `Change "#Bad" to "#bad"`
+ */
+function describeEdit(content: string, edit: TextEdit, range: { from: number; to: number }): string {
+	const old = content.slice(edit.from, edit.to);
+	const before = content.slice(range.from, range.to);
+	if (!/[\r\n]/.test(old + edit.text) && before.trim() !== '' && range.from <= edit.from && edit.to <= range.to) {
+		// Show the whole underlined word before and after the edit
+		const after = content.slice(range.from, edit.from) + edit.text + content.slice(edit.to, range.to);
+		return `Change ${snippet(before)} to ${snippet(after)}`;
+	}
+	if (old === '') {
+		return `Insert ${snippet(edit.text)}`;
+	}
+	if (edit.text === '') {
+		return `Remove ${snippet(old)}`;
+	}
+	if (snippet(old) === snippet(edit.text)) {
+		return `Fix whitespace and line breaks around ${snippet(old)}`;
+	}
+	return `Replace ${snippet(old)} with ${snippet(edit.text)}`;
+}
+
+/**
+ * Split a line-for-line replacement into one hunk per line
+ */
+function splitHunk(hunk: DiffHunk): DiffHunk[] {
+	if (hunk.oldLines !== hunk.newLines || hunk.oldLines < 2) {
+		return [hunk];
+	}
+	const removed = hunk.lines.filter(line => line.type === 'remove');
+	const added = hunk.lines.filter(line => line.type === 'add');
+	return removed.map((line, index) => ({
+		oldStart: hunk.oldStart + index,
+		oldLines: 1,
+		newStart: hunk.newStart + index,
+		newLines: 1,
+		lines: [line, added[index]]
+	}));
+}
+
+/**
+ * One diagnostic per change a rule's fix makes, each with the edit that applies it.
+ * Applying every returned fix yields the fixed content.
+ */
+export function diagnosticsFromFix(
+	ruleId: string,
+	severity: Severity,
+	content: string,
+	fixed: string,
+	lines: LineMap = new LineMap(content)
+): Diagnostic[] {
+	const hunks = ([] as DiffHunk[]).concat(...computeHunks(diffLines(content, fixed), 0).map(splitHunk));
+
+	return hunksToEdits(content, hunks).map(hunkEdit => {
+		const edit = narrowEdit(content, hunkEdit);
+		const range = highlightRange(content, lines, edit);
+		return {
+			ruleId,
+			type: 'fix',
+			severity,
+			message: describeEdit(content, edit, range),
+			from: range.from,
+			to: range.to,
+			lineNumber: lines.lineAt(range.from),
+			fix: [edit]
+		};
+	});
+}
+
+/**
+ * Range of the text of a line, without indentation and line terminator
+ */
+export function lineRange(content: string, lines: LineMap, lineNumber: number): { from: number; to: number } {
+	let from = lines.lineStart(lineNumber);
+	const to = lines.lineEnd(content, lineNumber);
+	while (from < to && /\s/.test(content[from])) {
+		from++;
+	}
+	return { from, to };
+}
+
+/**
+ * Lines a diagnostic affects: the lines its fix edits (an insertion at the start of
+ * a line also touches the line before it), or the line it was reported on
+ */
+export function touchedLines(lines: LineMap, diagnostic: Diagnostic): number[] {
+	if (!diagnostic.fix) {
+		return [diagnostic.lineNumber];
+	}
+
+	const touched: number[] = [];
+	for (const edit of diagnostic.fix) {
+		const first = lines.lineAt(edit.from);
+		if (edit.from === edit.to) {
+			if (first > 1 && lines.lineStart(first) === edit.from) {
+				touched.push(first - 1);
+			}
+			touched.push(first);
+			continue;
+		}
+		for (let line = first; line <= lines.lineAt(edit.to - 1); line++) {
+			touched.push(line);
+		}
+	}
+	return touched;
+}
+
+/**
+ * Apply the fixes of the given diagnostics to the content they were computed for.
+ * A fix overlapping one applied before it is skipped, as is an insertion at the point
+ * where another fix ends (two rules adding a `tags` key, say); it can be applied after
+ * checking again.
+ */
+export function applyFixes(content: string, diagnostics: Diagnostic[]): string {
+	const fixes = diagnostics
+		.filter(diagnostic => diagnostic.fix && diagnostic.fix.length > 0)
+		.map(diagnostic => [...diagnostic.fix!].sort((a, b) => a.from - b.from))
+		.sort((a, b) => a[0].from - b[0].from || a[0].to - b[0].to);
+	let output = '';
+	let position = 0;
+	// End of the last applied edit and whether it inserted text without replacing any
+	let lastEnd = -1;
+	let lastWasInsertion = false;
+
+	for (const edits of fixes) {
+		const first = edits[0];
+		if (first.from < position || (first.from === lastEnd && (lastWasInsertion || first.from === first.to))) {
+			continue;
+		}
+		for (const edit of edits) {
+			output += content.slice(position, edit.from) + edit.text;
+			position = edit.to;
+			lastEnd = edit.to;
+			lastWasInsertion = edit.from === edit.to;
+		}
+	}
+
+	return output + content.slice(position);
+}
@@ -0,0 +1,305 @@
+/**
+ * Line diff module
+ * Deterministic line-level diff (Myers) and unified-diff formatting for reports
+ */
+
+export interface DiffLine {
+	type: 'context' | 'add' | 'remove';
+	text: string;
+	// 1-based line numbers; add lines have no old line, remove lines no new line
+	oldLine?: number;
+	newLine?: number;
+}
+
+export interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: DiffLine[];
+}
+
+type EditOp = 'equal' | 'insert' | 'delete';
+
+// Above this many edits the middle of the file is treated as fully replaced;
+// this keeps memory bounded when e.g. every line ending of a large note changes
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split content into lines, each keeping its own line terminator
+ */
+export function splitLinesWithEndings(content: string): string[] {
+	return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm)
+ */
+function myersDiff(a: string[], b: string[]): EditOp[] {
+	const n = a.length;
+	const m = b.length;
+	// trace[d][k + d] is the furthest x reached on diagonal k with d edits
+	const trace: Int32Array[] = [];
+	let found = false;
+
+	for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE) && !found; d++) {
+		const current = new Int32Array(2 * d + 1);
+		const previous = d > 0 ? trace[d - 1] : null;
+
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (!previous) {
+				x = 0;
+			} else if (k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1])) {
+				x = previous[k + 1 + d - 1];
+			} else {
+				x = previous[k - 1 + d - 1] + 1;
+			}
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			current[k + d] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+
+		trace.push(current);
+	}
+
+	if (!found) {
+		return [...a.map((): EditOp => 'delete'), ...b.map((): EditOp => 'insert')];
+	}
+
+	// Walk the trace backwards to recover the edit script
+	const ops: EditOp[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d > 0; d--) {
+		const previous = trace[d - 1];
+		const k = x - y;
+		const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+		const prevK = down ? k + 1 : k - 1;
+		const prevX = previous[prevK + d - 1];
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			ops.push('equal');
+			x--;
+			y--;
+		}
+		ops.push(down ? 'insert' : 'delete');
+		x = prevX;
+		y = prevY;
+	}
+	while (x > 0 && y > 0) {
+		ops.push('equal');
+		x--;
+		y--;
+	}
+
+	return ops.reverse();
+}
+
+/**
+ * Compute the edit script between two texts, one entry per line
+ */
+export function diffLines(original: string, normalized: string): DiffLine[] {
+	const a = splitLinesWithEndings(original);
+	const b = splitLinesWithEndings(normalized);
+
+	// Common prefix and suffix are trimmed before running the diff proper
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix
+		&& a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	const ops: EditOp[] = [
+		...new Array<EditOp>(prefix).fill('equal'),
+		...myersDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+		...new Array<EditOp>(suffix).fill('equal')
+	];
+
+	const lines: DiffLine[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	for (const op of ops) {
+		if (op === 'equal') {
+			lines.push({ type: 'context', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+			oldIndex++;
+			newIndex++;
+		} else if (op === 'delete') {
+			lines.push({ type: 'remove', text: a[oldIndex], oldLine: oldIndex + 1 });
+			oldIndex++;
+		} else {
+			lines.push({ type: 'add', text: b[newIndex], newLine: newIndex + 1 });
+			newIndex++;
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Group the changed lines of a diff into hunks with the given number of context lines
+ */
+export function computeHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let current: DiffLine[] | null = null;
+	let startIndex = 0;
+	let trailingContext = 0;
+
+	// Line number of the last old/new line at or before a diff index (0 at the start)
+	const lastLineBefore = (index: number, key: 'oldLine' | 'newLine'): number => {
+		for (let i = index; i >= 0; i--) {
+			const value = lines[i][key];
+			if (value !== undefined) {
+				return value;
+			}
+		}
+		return 0;
+	};
+
+	const finish = () => {
+		if (!current) {
+			return;
+		}
+		// Drop context beyond the allowed amount at the end of the hunk
+		const body = current.slice(0, current.length - Math.max(0, trailingContext - context));
+		const oldCount = body.filter(line => line.type !== 'add').length;
+		const newCount = body.filter(line => line.type !== 'remove').length;
+		// As in unified diffs, an empty side starts at the line after which the change applies
+		hunks.push({
+			oldStart: oldCount > 0 ? body.find(line => line.oldLine !== undefined)!.oldLine! : lastLineBefore(startIndex - 1, 'oldLine'),
+			oldLines: oldCount,
+			newStart: newCount > 0 ? body.find(line => line.newLine !== undefined)!.newLine! : lastLineBefore(startIndex - 1, 'newLine'),
+			newLines: newCount,
+			lines: body
+		});
+		current = null;
+	};
+
+	lines.forEach((line, index) => {
+		if (line.type === 'context') {
+			if (current) {
+				current.push(line);
+				trailingContext++;
+				if (trailingContext > context * 2) {
+					finish();
+				}
+			}
+			return;
+		}
+
+		if (!current) {
+			startIndex = Math.max(0, index - context);
+			current = lines.slice(startIndex, index);
+		}
+		current.push(line);
+		trailingContext = 0;
+	});
+	finish();
+
+	return hunks;
+}
+
+/**
+ * Rebuild content from the original, applying only the accepted hunks.
+ * Accepting every hunk yields the normalized content; accepting none yields the original.
+ */
+export function applyHunks(original: string, hunks: DiffHunk[], accepted: boolean[]): string {
+	const originalLines = splitLinesWithEndings(original);
+	const output: string[] = [];
+	let next = 0;
+
+	hunks.forEach((hunk, index) => {
+		const start = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+		output.push(...originalLines.slice(next, start));
+		for (const line of hunk.lines) {
+			if (line.type === 'context' || line.type === 'remove' && !accepted[index] || line.type === 'add' && accepted[index]) {
+				output.push(line.text);
+			}
+		}
+		next = start + hunk.oldLines;
+	});
+	output.push(...originalLines.slice(next));
+
+	return output.join('');
+}
+
+/**
+ * Replacement of the original text between two character offsets
+ */
+export interface TextEdit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+/**
+ * Express hunks as character-offset edits of the original, e.g. for editor transactions.
+ * Offsets refer to the original content, so the edits must be applied together.
+ */
+export function hunksToEdits(original: string, hunks: DiffHunk[]): TextEdit[] {
+	const lineStarts = [0];
+	for (const line of splitLinesWithEndings(original)) {
+		lineStarts.push(lineStarts[lineStarts.length - 1] + line.length);
+	}
+
+	return hunks.map(hunk => {
+		const start = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+		return {
+			from: lineStarts[start],
+			to: lineStarts[start + hunk.oldLines],
+			text: hunk.lines.filter(line => line.type !== 'remove').map(line => line.text).join('')
+		};
+	});
+}
+
+/**
+ * Make a diff line printable: line endings become visible markers
+ */
+function displayLine(prefix: string, text: string): string[] {
+	const hasNewline = text.endsWith('\n');
+	let body = hasNewline ? text.slice(0, -1) : text;
+	if (body.endsWith('\r')) {
+		body = body.slice(0, -1) + '␍';
+	}
+	return hasNewline ? [prefix + body] : [prefix + body, '\\ No newline at end of file'];
+}
+
+/**
+ * Format hunks as a unified diff
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[], oldName = 'original', newName = 'normalized'): string {
+	if (hunks.length === 0) {
+		return '';
+	}
+
+	const output = [`--- ${oldName}`, `+++ ${newName}`];
+	for (const hunk of hunks) {
+		output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+		for (const line of hunk.lines) {
+			const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+			output.push(...displayLine(prefix, line.text));
+		}
+	}
+	return output.join('\n');
+}
+
+/**
+ * Wrap a diff in a ```diff fence longer than any backtick run inside it
+ */
+export function fenceDiff(diff: string): string {
+	const longestRun = Math.max(0, ...(diff.match(/`+/g) || []).map(run => run.length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${fence}diff\n${diff}\n${fence}`;
+}
@@ -1,8 +1,121 @@
 import { VaultLinterSettings } from '../settings';
+import { detectTags, scanSegments, SegmentType, transformSegments } from './scan';
+
+/**
+ * A line of a note and whether formatting rules may change it
+ */
+interface ProseLine {
+	text: string;
+	// Columns where the first protected segment on the line (frontmatter, code, math or a
+	// comment) starts and where the last one ends; -1 when there is none
+	protectedStart: number;
+	protectedEnd: number;
+}
+
+/**
+ * Where a line stands in a list, as found by findLists
+ */
+interface ListLine {
+	// The list item starting on this line, if any
+	item: RegExpMatchArray | null;
+	// Part of a list: an item or one of its continuation lines
+	inList: boolean;
+	// First item of a list
+	listStart: boolean;
+}
+
+// Segments whose lines formatting rules never change
+const PROTECTED_TYPES: SegmentType[] = ['frontmatter', 'code-block', 'indented-code', 'math-block', 'html-comment', 'obsidian-comment'];
+// List item with content: indentation, bullet or number with delimiter, spacing
+const LIST_ITEM_REGEX = /^([ \t]*)([-*+]|(\d{1,9})([.)]))([ \t]+)(?=\S)/;
+// Thematic break (---, * * *, ___), which looks like a list item
+const THEMATIC_BREAK_REGEX = /^[ \t]{0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const HEADING_REGEX = /^#{1,6}(?:[ \t]|$)/;
+const FENCE_REGEX = /^(`{3,}|~{3,})/;
+// Emphasis written with _ or *; the delimiters must not touch letters, digits or another delimiter
+const UNDERSCORE_EMPHASIS_REGEX = /(?<![\p{L}\p{N}_\\])_(?![\s_])([^_*\n]*?[^\s_*\\])_(?![\p{L}\p{N}_])/gu;
+const ASTERISK_EMPHASIS_REGEX = /(?<![\p{L}\p{N}*\\])\*(?![\s*])([^_*\n]*?[^\s_*\\])\*(?![\p{L}\p{N}*])/gu;
+// Inline HTML tag, e.g. <span class="a_b_c">
+const HTML_TAG_REGEX = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/g;
+
+/**
+ * Split content into lines, marking the columns covered by protected segments
+ */
+function splitProseLines(content: string): ProseLine[] {
+	const segments = scanSegments(content).filter(segment => PROTECTED_TYPES.includes(segment.type));
+	const lines: ProseLine[] = [];
+	let offset = 0;
+	let next = 0;
+
+	for (const text of content.split('\n')) {
+		const end = offset + text.length;
+		while (next < segments.length && segments[next].end <= offset) {
+			next++;
+		}
+		const line: ProseLine = { text, protectedStart: -1, protectedEnd: -1 };
+		for (let i = next; i < segments.length && segments[i].start <= end; i++) {
+			if (line.protectedStart === -1) {
+				line.protectedStart = Math.max(0, segments[i].start - offset);
+			}
+			line.protectedEnd = Math.min(text.length, segments[i].end - offset);
+		}
+		lines.push(line);
+		offset = end + 1;
+	}
+
+	return lines;
+}
+
+/**
+ * Whether the first `columns` characters of a line are prose
+ */
+function isProse(line: ProseLine, columns: number): boolean {
+	return line.protectedStart === -1 || line.protectedStart >= columns;
+}
+
+/**
+ * Column reached by leading whitespace, with tabs advancing to the next tab stop
+ */
+function indentColumns(indent: string, tabWidth: number): number {
+	let columns = 0;
+	for (const char of indent) {
+		columns = char === '\t' ? columns + tabWidth - columns % tabWidth : columns + 1;
+	}
+	return columns;
+}
+
+/**
+ * Find list items and their continuation lines. A list ends at an unindented line after a
+ * blank line, or at a heading, fence, thematic break or blockquote in the first column.
+ */
+function findLists(lines: ProseLine[]): ListLine[] {
+	let inList = false;
+	let previousBlank = true;
+
+	return lines.map(line => {
+		const blank = line.text.trim() === '';
+		const unindented = !/^[ \t]/.test(line.text);
+		const match = THEMATIC_BREAK_REGEX.test(line.text) ? null : line.text.match(LIST_ITEM_REGEX);
+		const item = match && isProse(line, match[0].length) ? match : null;
+		let listStart = false;
+
+		if (item) {
+			listStart = !inList;
+			inList = true;
+		} else if (!blank && unindented && (previousBlank || !isProse(line, 1) || HEADING_REGEX.test(line.text)
+			|| FENCE_REGEX.test(line.text) || THEMATIC_BREAK_REGEX.test(line.text) || line.text.startsWith('>'))) {
+			inList = false;
+		}
+
+		previousBlank = blank;
+		return { item, inList: inList && !blank, listStart };
+	});
+}
 
 /**
  * Formatting normalization module
- * Applies consistent formatting rules to Markdown content
+ * Applies consistent formatting rules to Markdown content. Every rule leaves frontmatter,
+ * code blocks, math and comments untouched.
  */
 export class FormattingNormalizer {
 	settings: VaultLinterSettings;
@@ -12,7 +125,7 @@ export class FormattingNormalizer {
 	}
 
 	/**
-	 * Remove multiple consecutive blank lines
+	 * Remove multiple consecutive blank lines outside code blocks, math and comments
 	 */
 	removeMultipleBlankLines(content: string): string {
 		if (!this.settings.removeMultipleBlankLines) {
@@ -20,7 +133,7 @@ export class FormattingNormalizer {
 		}
 
 		// Replace 3+ newlines with 2 newlines (keeping one blank line)
-		return content.replace(/\n{3,}/g, '\n\n');
+		return transformSegments(content, ['text'], text => text.replace(/\n{3,}/g, '\n\n'));
 	}
 
 	/**
@@ -42,6 +155,231 @@ export class FormattingNormalizer {
 		return content.replace(/\r\n/g, '\n');
 	}
 
+	/**
+	 * Remove trailing spaces and tabs. Two or more spaces before another line of the same
+	 * paragraph are a hard line break and become exactly two spaces.
+	 */
+	trimTrailingWhitespace(content: string): string {
+		if (!this.settings.trimTrailingWhitespace) {
+			return content;
+		}
+
+		const lines = splitProseLines(content);
+		return lines.map((line, index) => {
+			const trimmed = line.text.replace(/[ \t]+$/, '');
+			if (line.protectedEnd > trimmed.length) {
+				return line.text;
+			}
+			const next = lines[index + 1];
+			const hardBreak = / {2,}$/.test(line.text) && trimmed.trim() !== '' && !HEADING_REGEX.test(trimmed)
+				&& next !== undefined && next.text.trim() !== '';
+			return hardBreak ? trimmed + '  ' : trimmed;
+		}).join('\n');
+	}
+
+	/**
+	 * Indent list lines with tabs or with spaces, `listIndentWidth` columns per tab
+	 */
+	normalizeListIndentation(content: string): string {
+		const style = this.settings.listIndentation;
+		if (style === 'none') {
+			return content;
+		}
+
+		const width = Math.max(1, this.settings.listIndentWidth);
+		const lines = splitProseLines(content);
+		const lists = findLists(lines);
+		return lines.map((line, index) => {
+			const indent = line.text.match(/^[ \t]*/)![0];
+			if (!lists[index].inList || indent === '' || !isProse(line, indent.length)) {
+				return line.text;
+			}
+			const columns = indentColumns(indent, width);
+			const converted = style === 'tabs'
+				? '\t'.repeat(Math.floor(columns / width)) + ' '.repeat(columns % width)
+				: ' '.repeat(columns);
+			return converted + line.text.slice(indent.length);
+		}).join('\n');
+	}
+
+	/**
+	 * Use the same bullet for every unordered list item and number ordered list items
+	 * consecutively from the first item's number, per list and nesting level
+	 */
+	normalizeListMarkers(content: string): string {
+		const marker = this.settings.listMarker;
+		const renumber = this.settings.renumberOrderedLists;
+		if (marker === 'none' && !renumber) {
+			return content;
+		}
+
+		const lines = splitProseLines(content);
+		const lists = findLists(lines);
+		const width = Math.max(1, this.settings.listIndentWidth);
+		let levels: { column: number; delimiter: string | null; next: number }[] = [];
+
+		return lines.map((line, index) => {
+			const { item, listStart } = lists[index];
+			if (!item) {
+				return line.text;
+			}
+			if (listStart) {
+				levels = [];
+			}
+
+			const column = indentColumns(item[1], width);
+			while (levels.length > 0 && levels[levels.length - 1].column > column) {
+				levels.pop();
+			}
+			const delimiter = item[4] || null;
+			let level = levels[levels.length - 1];
+			if (!level || level.column !== column || level.delimiter !== delimiter) {
+				if (level && level.column === column) {
+					levels.pop();
+				}
+				level = { column, delimiter, next: delimiter ? parseInt(item[3], 10) : 0 };
+				levels.push(level);
+			}
+
+			const rest = line.text.slice(item[0].length);
+			if (delimiter) {
+				const number = renumber ? level.next : parseInt(item[3], 10);
+				level.next = number + 1;
+				return renumber ? `${item[1]}${number}${delimiter}${item[5]}${rest}` : line.text;
+			}
+			return marker !== 'none' ? `${item[1]}${marker}${item[5]}${rest}` : line.text;
+		}).join('\n');
+	}
+
+	/**
+	 * Use the same fence character for every code block. Blocks whose content or info
+	 * string contains the other fence are left alone, as are unclosed blocks.
+	 */
+	normalizeFenceStyle(content: string): string {
+		const style = this.settings.fenceStyle;
+		if (style === 'none') {
+			return content;
+		}
+
+		const target = style === 'backtick' ? '`' : '~';
+		return transformSegments(content, ['code-block'], text => {
+			const lines = text.split('\n');
+			const open = lines[0].match(/^([ \t]*(?:>[ \t]?)*[ \t]*)(`{3,}|~{3,})(.*)$/);
+			const close = lines.length > 1 ? lines[lines.length - 1].match(/^([ \t]*(?:>[ \t]?)*[ \t]*)(`{3,}|~{3,})([ \t]*)$/) : null;
+			if (!open || !close || open[2][0] === target || close[2][0] !== open[2][0]
+				|| open[3].includes(target) || lines.slice(1, -1).some(line => line.includes(target.repeat(3)))) {
+				return text;
+			}
+			lines[0] = open[1] + target.repeat(open[2].length) + open[3];
+			lines[lines.length - 1] = close[1] + target.repeat(close[2].length) + close[3];
+			return lines.join('\n');
+		});
+	}
+
+	/**
+	 * Write emphasis with `*` or `_`. Only emphasis within a run of plain text is converted;
+	 * strong emphasis, intraword `*` (which `_` cannot express), spans containing the other
+	 * character, URLs, HTML tags and `#tags` are left alone. Matching runs on the whole note so the
+	 * characters around a text segment (the end of a URL, say) count too.
+	 */
+	normalizeEmphasisStyle(content: string): string {
+		const style = this.settings.emphasisStyle;
+		if (style === 'none') {
+			return content;
+		}
+
+		const regex = new RegExp((style === 'asterisk' ? UNDERSCORE_EMPHASIS_REGEX : ASTERISK_EMPHASIS_REGEX).source, 'gu');
+		const delimiter = style === 'asterisk' ? '*' : '_';
+		const textSegments = scanSegments(content).filter(segment => segment.type === 'text');
+		const htmlTags: { start: number; end: number }[] = [];
+		let tag;
+		const tagRegex = new RegExp(HTML_TAG_REGEX.source, 'g');
+		while ((tag = tagRegex.exec(content)) !== null) {
+			htmlTags.push({ start: tag.index, end: tag.index + tag[0].length });
+		}
+		// Underscores are tag characters, so `#_private_` is a tag, not emphasis
+		const skipped = [...htmlTags, ...detectTags(content)];
+
+		let output = '';
+		let position = 0;
+		let match;
+		while ((match = regex.exec(content)) !== null) {
+			const start = match.index;
+			const end = start + match[0].length;
+			if (!textSegments.some(segment => segment.start <= start && end <= segment.end)
+				|| skipped.some(range => range.start < end && start < range.end)) {
+				// Another match may start inside this one
+				regex.lastIndex = start + 1;
+				continue;
+			}
+			output += content.slice(position, start) + delimiter + match[1] + delimiter;
+			position = end;
+		}
+
+		return output + content.slice(position);
+	}
+
+	/**
+	 * Add a blank line before lists that can interrupt a paragraph and around code fences
+	 * in the first column (headings are spaced by the heading rules)
+	 */
+	addBlankLinesAroundBlocks(content: string): string {
+		if (!this.settings.blankLinesAroundBlocks) {
+			return content;
+		}
+
+		const lines = splitProseLines(content);
+		const lists = findLists(lines);
+		const segments = scanSegments(content);
+		const frontmatter = segments.find(segment => segment.type === 'frontmatter');
+		const frontmatterEndLine = frontmatter ? content.slice(0, frontmatter.end).split('\n').length - 1 : -1;
+		const isBlank = (index: number) => index < 0 || index >= lines.length || lines[index].text.trim() === '' || index === frontmatterEndLine;
+		const blankBefore = new Set<number>();
+		const blankAfter = new Set<number>();
+
+		lists.forEach((list, index) => {
+			// Only bullets and lists starting at 1 can interrupt a paragraph; another ordered
+			// item right after text is part of the paragraph, and a blank line would change that
+			const canInterrupt = list.item !== null && (list.item[3] === undefined || parseInt(list.item[3], 10) === 1);
+			if (list.listStart && canInterrupt && !isBlank(index - 1)) {
+				blankBefore.add(index);
+			}
+		});
+
+		let offset = 0;
+		const lineStarts = lines.map(line => {
+			const start = offset;
+			offset += line.text.length + 1;
+			return start;
+		});
+		for (const segment of segments.filter(segment => segment.type === 'code-block' && FENCE_REGEX.test(segment.content))) {
+			const openLine = lineStarts.indexOf(segment.start);
+			const closeLine = openLine + segment.content.split('\n').length - 1;
+			if (openLine === -1) {
+				continue;
+			}
+			if (!isBlank(openLine - 1)) {
+				blankBefore.add(openLine);
+			}
+			if (closeLine > openLine && !isBlank(closeLine + 1)) {
+				blankAfter.add(closeLine);
+			}
+		}
+
+		const output: string[] = [];
+		lines.forEach((line, index) => {
+			if (blankBefore.has(index) && !blankAfter.has(index - 1)) {
+				output.push('');
+			}
+			output.push(line.text);
+			if (blankAfter.has(index)) {
+				output.push('');
+			}
+		});
+
+		return output.join('\n');
+	}
+
 	/**
 	 * Apply all formatting normalizations
 	 */
@@ -52,6 +390,12 @@ export class FormattingNormalizer {
 
 		let normalized = content;
 		normalized = this.normalizeLineEndings(normalized);
+		normalized = this.trimTrailingWhitespace(normalized);
+		normalized = this.normalizeListIndentation(normalized);
+		normalized = this.normalizeListMarkers(normalized);
+		normalized = this.normalizeFenceStyle(normalized);
+		normalized = this.normalizeEmphasisStyle(normalized);
+		normalized = this.addBlankLinesAroundBlocks(normalized);
 		normalized = this.removeMultipleBlankLines(normalized);
 		normalized = this.ensureTrailingNewline(normalized);
 
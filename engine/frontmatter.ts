@@ -1,4 +1,8 @@
-import { VaultLinterSettings } from '../settings';
+import { FrontmatterFieldRule, VaultLinterSettings } from '../settings';
+import { matchesAnyGlob } from './glob';
+import { LintError } from './report';
+import { scanSegments, Segment } from './scan';
+import { FrontmatterEntry, getEntryValue, ParsedFrontmatter, parseFrontmatterYaml, serializeFrontmatterYaml } from './yaml';
 
 /**
  * Frontmatter enforcement module
@@ -80,19 +84,263 @@ export class FrontmatterEnforcer {
 			.replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 	}
 
+	/**
+	 * Find the frontmatter segment of a note, if it has a closed one
+	 */
+	private findFrontmatterSegment(content: string): Segment | null {
+		return scanSegments(content).find(segment => segment.type === 'frontmatter') || null;
+	}
+
+	/**
+	 * Split a frontmatter segment into its fences and parsed body
+	 */
+	private parseSegment(segment: Segment): { parsed: ParsedFrontmatter; fences: [string, string]; eol: string } {
+		const eol = segment.content.includes('\r\n') ? '\r\n' : '\n';
+		const lines = segment.content.split(/\r?\n/);
+		return {
+			parsed: parseFrontmatterYaml(lines.slice(1, -1).join('\n')),
+			fences: [lines[0], lines[lines.length - 1]],
+			eol
+		};
+	}
+
+	/**
+	 * Parse the template into entries, giving the schema key order
+	 */
+	private parseTemplate(filePath: string): FrontmatterEntry[] {
+		const template = this.generateFrontmatter(basename(filePath)).split(/\r?\n/);
+		return parseFrontmatterYaml(template.slice(1, -1).join('\n')).entries;
+	}
+
+	/**
+	 * Schema fields that apply to a note at the given path
+	 */
+	private applicableFields(filePath: string): FrontmatterFieldRule[] {
+		return this.settings.frontmatterSchema.filter(field =>
+			!field.folders || field.folders.length === 0 || matchesAnyGlob(filePath, field.folders)
+		);
+	}
+
+	/**
+	 * Check a present field against its type, allowed values and pattern.
+	 * Returns a message describing the violation, or null if the value is valid.
+	 */
+	private checkFieldValue(field: FrontmatterFieldRule, value: string | string[] | null): string | null {
+		if (value === null) {
+			return field.required && field.type !== 'any' ? `Field '${field.key}' is empty` : null;
+		}
+
+		switch (field.type) {
+			case 'list':
+				if (!Array.isArray(value)) {
+					return `Field '${field.key}' must be a list`;
+				}
+				break;
+			case 'string':
+				if (Array.isArray(value)) {
+					return `Field '${field.key}' must be a string, not a list`;
+				}
+				break;
+			case 'number':
+				if (Array.isArray(value) || !/^-?\d+(?:\.\d+)?$/.test(value)) {
+					return `Field '${field.key}' must be a number`;
+				}
+				break;
+			case 'boolean':
+				if (Array.isArray(value) || !/^(?:true|false)$/.test(value)) {
+					return `Field '${field.key}' must be true or false`;
+				}
+				break;
+			case 'date':
+				if (Array.isArray(value) || !isIsoDate(value)) {
+					return `Field '${field.key}' must be an ISO date (YYYY-MM-DD)`;
+				}
+				break;
+		}
+
+		const items = Array.isArray(value) ? value : [value];
+
+		if (field.values && field.values.length > 0) {
+			const invalid = items.filter(item => !field.values!.includes(item));
+			if (invalid.length > 0) {
+				return `Field '${field.key}' has invalid value '${invalid[0]}' (allowed: ${field.values.join(', ')})`;
+			}
+		}
+
+		if (field.pattern) {
+			let pattern: RegExp;
+			try {
+				pattern = new RegExp(field.pattern);
+			} catch (error) {
+				return `Schema pattern for '${field.key}' is not a valid regular expression`;
+			}
+			const invalid = items.filter(item => !pattern.test(item));
+			if (invalid.length > 0) {
+				return `Field '${field.key}' value '${invalid[0]}' does not match pattern ${field.pattern}`;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Check parsed entries against the user-defined schema for this note's folder
+	 */
+	private validateSchema(entries: FrontmatterEntry[], filePath: string, fenceLine: number): LintError[] {
+		const errors: LintError[] = [];
+		const existing = new Map(entries.map(entry => [entry.key, entry]));
+		const templateKeys = this.parseTemplate(filePath).map(entry => entry.key);
+
+		for (const field of this.settings.frontmatterSchema) {
+			const entry = existing.get(field.key);
+			if (entry && field.forbiddenFolders && matchesAnyGlob(filePath, field.forbiddenFolders)) {
+				errors.push({
+					type: 'frontmatter-schema',
+					message: `Field '${field.key}' is not allowed in this folder`,
+					lineNumber: fenceLine + 1 + entry.line
+				});
+			}
+		}
+
+		for (const field of this.applicableFields(filePath)) {
+			const entry = existing.get(field.key);
+			if (!entry) {
+				// Missing fields with a default (or from the template) are auto-fixed by enforce()
+				if (field.required && field.default === undefined && !templateKeys.includes(field.key)) {
+					errors.push({
+						type: 'frontmatter-schema',
+						message: `Missing required field '${field.key}'`,
+						lineNumber: fenceLine
+					});
+				}
+				continue;
+			}
+
+			const message = this.checkFieldValue(field, getEntryValue(entry));
+			if (message) {
+				errors.push({ type: 'frontmatter-schema', message, lineNumber: fenceLine + 1 + entry.line });
+			}
+		}
+
+		return errors.sort((a, b) => (a.lineNumber || 0) - (b.lineNumber || 0));
+	}
+
+	/**
+	 * Validate existing frontmatter, reporting malformed YAML and schema violations as lint errors
+	 */
+	validate(content: string, filePath: string): LintError[] {
+		if (!this.settings.enforceFrontmatter) {
+			return [];
+		}
+
+		if (!this.hasFrontmatter(content)) {
+			// The generated frontmatter only contains template keys and schema defaults
+			return this.validateSchema([], filePath, 1);
+		}
+
+		const segment = this.findFrontmatterSegment(content);
+		if (!segment) {
+			const line = content.slice(0, content.indexOf('---')).split('\n').length;
+			return [{ type: 'frontmatter-invalid', message: 'Frontmatter fence is not closed', lineNumber: line }];
+		}
+
+		// The opening fence is on this line; the body starts on the next one
+		const fenceLine = content.slice(0, segment.start).split('\n').length;
+		const { parsed } = this.parseSegment(segment);
+		if (parsed.issues.length > 0) {
+			return parsed.issues.map(issue => ({
+				type: 'frontmatter-invalid' as const,
+				message: issue.message,
+				lineNumber: fenceLine + 1 + issue.line
+			}));
+		}
+
+		return this.validateSchema(parsed.entries, filePath, fenceLine);
+	}
+
+	/**
+	 * Fill in keys missing from the template or with a schema default, and reorder keys:
+	 * template keys first, then schema fields, then unknown keys in their original order.
+	 * Comments move with the key they precede.
+	 */
+	private normalizeEntries(parsed: ParsedFrontmatter, template: FrontmatterEntry[], filePath: string): ParsedFrontmatter {
+		const existing = new Map(parsed.entries.map(entry => [entry.key, entry]));
+		const ordered: FrontmatterEntry[] = [];
+		const placed = new Set<string>();
+
+		for (const templateEntry of template) {
+			ordered.push(existing.get(templateEntry.key) || { ...templateEntry, comments: [] });
+			placed.add(templateEntry.key);
+		}
+
+		const applicable = this.applicableFields(filePath);
+		for (const field of this.settings.frontmatterSchema) {
+			if (placed.has(field.key)) {
+				continue;
+			}
+			const entry = existing.get(field.key);
+			if (entry) {
+				ordered.push(entry);
+				placed.add(field.key);
+			} else if (field.required && field.default !== undefined && applicable.includes(field)) {
+				ordered.push({ key: field.key, lines: [`${field.key}: ${field.default}`], comments: [], line: -1 });
+				placed.add(field.key);
+			}
+		}
+
+		for (const entry of parsed.entries) {
+			if (!placed.has(entry.key)) {
+				ordered.push(entry);
+			}
+		}
+
+		return { entries: ordered, trailing: parsed.trailing, issues: parsed.issues };
+	}
+
 	/**
 	 * Enforce frontmatter on content
 	 */
-	enforce(content: string, fileName: string): string {
+	enforce(content: string, filePath: string): string {
 		if (!this.settings.enforceFrontmatter) {
 			return content;
 		}
 
-		if (this.hasFrontmatter(content)) {
-			return content; // Already has frontmatter
+		if (!this.hasFrontmatter(content)) {
+			const frontmatter = this.generateFrontmatter(basename(filePath));
+			content = frontmatter + '\n\n' + content;
+		}
+
+		// Unclosed or malformed frontmatter is reported by validate() and left untouched
+		const segment = this.findFrontmatterSegment(content);
+		if (!segment) {
+			return content;
 		}
+		const { parsed, fences, eol } = this.parseSegment(segment);
+		if (parsed.issues.length > 0) {
+			return content;
+		}
+
+		const normalized = this.normalizeEntries(parsed, this.parseTemplate(filePath), filePath);
+		const body = serializeFrontmatterYaml(normalized, eol);
+		const frontmatter = [fences[0], ...(body === '' ? [] : [body]), fences[1]].join(eol);
 
-		const frontmatter = this.generateFrontmatter(fileName);
-		return frontmatter + '\n\n' + content;
+		return content.slice(0, segment.start) + frontmatter + content.slice(segment.end);
+	}
+}
+
+/**
+ * File name of a vault path
+ */
+function basename(filePath: string): string {
+	return filePath.split('/').pop() || filePath;
+}
+
+/**
+ * Check for an ISO 8601 date, optionally with a time
+ */
+function isIsoDate(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+		return false;
 	}
+	return !isNaN(new Date(value.slice(0, 10)).getTime());
 }
@@ -0,0 +1,61 @@
+/**
+ * Glob matching for vault paths
+ * Supports `**` (any number of folders), `*` (anything but `/`) and `?`.
+ * A pattern ending in `/` matches everything inside that folder.
+ */
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const cached = globCache.get(pattern);
+	if (cached) {
+		return cached;
+	}
+
+	let glob = pattern.trim().replace(/^\.?\//, '');
+	if (glob.endsWith('/')) {
+		glob += '**';
+	}
+
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// '**/' also matches zero folders
+			if (glob[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	const regex = new RegExp(`^${source}$`);
+	globCache.set(pattern, regex);
+	return regex;
+}
+
+/**
+ * Check whether a vault-relative path matches a glob pattern
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+	return globToRegExp(pattern).test(path);
+}
+
+/**
+ * Check whether a path matches any of the given patterns
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some(pattern => pattern.trim() !== '' && matchesGlob(path, pattern));
+}
@@ -0,0 +1,235 @@
+import { VaultLinterSettings } from '../settings';
+import { LintError } from './report';
+import { getProtectedRanges, isInRange, scanSegments } from './scan';
+import { getEntryValue, parseFrontmatterYaml } from './yaml';
+
+/**
+ * An ATX heading line found outside protected content
+ */
+interface HeadingLine {
+	lineIndex: number;
+	level: number;
+	text: string;
+	missingSpace: boolean;
+}
+
+const TRAILING_PUNCTUATION_REGEX = /[.,;:!。，；：！]+$/;
+
+/**
+ * Heading rules module
+ * Validates heading hierarchy and syntax, with optional auto-fixes
+ */
+export class HeadingRules {
+	settings: VaultLinterSettings;
+
+	constructor(settings: VaultLinterSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Find heading lines, including '##Heading' lines missing the space after the hashes.
+	 * A single '#' directly followed by text is a tag, not a heading.
+	 */
+	private findHeadings(lines: string[], content: string): HeadingLine[] {
+		const protectedRanges = getProtectedRanges(content);
+		const headings: HeadingLine[] = [];
+		let offset = 0;
+
+		lines.forEach((line, lineIndex) => {
+			const lineStart = offset;
+			offset += line.length + 1;
+			if (isInRange(lineStart, protectedRanges)) {
+				return;
+			}
+
+			const match = line.match(/^(#{1,6})(?:([ \t]+)(.*?)|([^\s#].*?))[ \t]*\r?$/);
+			if (!match || match[4] !== undefined && match[1].length === 1) {
+				return;
+			}
+
+			const missingSpace = match[4] !== undefined;
+			const text = (missingSpace ? match[4] : match[3])
+				.replace(/[ \t]+#+$/, '') // closing hashes
+				.trim();
+			headings.push({ lineIndex, level: match[1].length, text, missingSpace });
+		});
+
+		return headings;
+	}
+
+	/**
+	 * Read the frontmatter title, if any
+	 */
+	private getTitle(content: string): string | null {
+		const frontmatter = scanSegments(content).find(segment => segment.type === 'frontmatter');
+		if (!frontmatter) {
+			return null;
+		}
+		const lines = frontmatter.content.split(/\r?\n/);
+		const entry = parseFrontmatterYaml(lines.slice(1, -1).join('\n')).entries.find(e => e.key === 'title');
+		const value = entry ? getEntryValue(entry) : null;
+		return typeof value === 'string' ? value : null;
+	}
+
+	/**
+	 * Compute the level each heading should have so no level is skipped.
+	 * Children of a promoted heading move up with it.
+	 */
+	private fixedLevels(headings: HeadingLine[]): number[] {
+		const stack: { original: number; fixed: number }[] = [];
+		return headings.map(heading => {
+			while (stack.length > 0 && stack[stack.length - 1].original >= heading.level) {
+				stack.pop();
+			}
+			const parent = stack[stack.length - 1];
+			const fixed = parent ? Math.min(heading.level, parent.fixed + 1) : heading.level;
+			stack.push({ original: heading.level, fixed });
+			return fixed;
+		});
+	}
+
+	/**
+	 * Whether the line before a heading must be blank (not at the start of the note or right after frontmatter)
+	 */
+	private needsBlankBefore(lines: string[], lineIndex: number, frontmatterEndLine: number): boolean {
+		return lineIndex > 0 && lineIndex - 1 !== frontmatterEndLine && lines[lineIndex - 1].trim() !== '';
+	}
+
+	/**
+	 * Whether the line after a heading must be blank (not at the end of the note)
+	 */
+	private needsBlankAfter(lines: string[], lineIndex: number): boolean {
+		return lineIndex + 1 < lines.length && lines[lineIndex + 1].trim() !== '';
+	}
+
+	/**
+	 * Index of the closing frontmatter fence line, or -1
+	 */
+	private frontmatterEndLine(content: string): number {
+		const frontmatter = scanSegments(content).find(segment => segment.type === 'frontmatter');
+		return frontmatter ? content.slice(0, frontmatter.end).split('\n').length - 1 : -1;
+	}
+
+	/**
+	 * Report heading problems that normalize() will not fix with the current settings
+	 */
+	validate(content: string): LintError[] {
+		if (!this.settings.enforceHeadingRules) {
+			return [];
+		}
+
+		const errors: LintError[] = [];
+		const lines = content.split('\n');
+		const headings = this.findHeadings(lines, content);
+		const frontmatterEndLine = this.frontmatterEndLine(content);
+
+		const h1s = headings.filter(heading => heading.level === 1);
+		if (h1s.length > 1) {
+			for (const heading of h1s.slice(1)) {
+				errors.push({
+					type: 'heading-multiple-h1',
+					message: `Note has more than one H1 heading ("${heading.text}")`,
+					lineNumber: heading.lineIndex + 1
+				});
+			}
+		}
+
+		const title = this.getTitle(content);
+		if (title !== null && h1s.length > 0 && h1s[0].text.toLowerCase() !== title.trim().toLowerCase()) {
+			errors.push({
+				type: 'heading-title-mismatch',
+				message: `H1 "${h1s[0].text}" does not match frontmatter title "${title}"`,
+				lineNumber: h1s[0].lineIndex + 1
+			});
+		}
+
+		headings.forEach((heading, index) => {
+			const lineNumber = heading.lineIndex + 1;
+			const previous = headings[index - 1];
+
+			if (!this.settings.fixHeadingLevels && previous && heading.level > previous.level + 1) {
+				errors.push({
+					type: 'heading-skipped-level',
+					message: `Heading level skips from H${previous.level} to H${heading.level}`,
+					lineNumber
+				});
+			}
+
+			if (!this.settings.fixHeadingSyntax) {
+				if (heading.missingSpace) {
+					errors.push({ type: 'heading-missing-space', message: 'Missing space after heading marker', lineNumber });
+				}
+				if (TRAILING_PUNCTUATION_REGEX.test(heading.text)) {
+					errors.push({ type: 'heading-trailing-punctuation', message: 'Heading ends with punctuation', lineNumber });
+				}
+			}
+
+			if (!this.settings.fixHeadingSpacing
+				&& (this.needsBlankBefore(lines, heading.lineIndex, frontmatterEndLine) || this.needsBlankAfter(lines, heading.lineIndex))) {
+				errors.push({ type: 'heading-spacing', message: 'Heading should be surrounded by blank lines', lineNumber });
+			}
+		});
+
+		return errors.sort((a, b) => (a.lineNumber || 0) - (b.lineNumber || 0));
+	}
+
+	/**
+	 * Apply the enabled heading auto-fixes
+	 */
+	normalize(content: string): string {
+		if (!this.settings.enforceHeadingRules) {
+			return content;
+		}
+
+		const lines = content.split('\n');
+		const headings = this.findHeadings(lines, content);
+		if (headings.length === 0) {
+			return content;
+		}
+
+		const levels = this.fixedLevels(headings);
+		const frontmatterEndLine = this.frontmatterEndLine(content);
+		const blankBefore = new Set<number>();
+		const blankAfter = new Set<number>();
+
+		headings.forEach((heading, index) => {
+			const fixSyntax = this.settings.fixHeadingSyntax;
+			if (!fixSyntax && !this.settings.fixHeadingLevels && !this.settings.fixHeadingSpacing) {
+				return;
+			}
+
+			if (fixSyntax || this.settings.fixHeadingLevels) {
+				// Only rebuild the line when something about it changes, to keep diffs minimal
+				const level = this.settings.fixHeadingLevels ? levels[index] : heading.level;
+				const text = fixSyntax ? heading.text.replace(TRAILING_PUNCTUATION_REGEX, '').trimEnd() : heading.text;
+				const needsRebuild = level !== heading.level || (fixSyntax && (heading.missingSpace || text !== heading.text));
+				if (needsRebuild) {
+					const eol = lines[heading.lineIndex].endsWith('\r') ? '\r' : '';
+					lines[heading.lineIndex] = `${'#'.repeat(level)} ${text}${eol}`;
+				}
+			}
+
+			if (this.settings.fixHeadingSpacing) {
+				if (this.needsBlankBefore(lines, heading.lineIndex, frontmatterEndLine)) {
+					blankBefore.add(heading.lineIndex);
+				}
+				if (this.needsBlankAfter(lines, heading.lineIndex)) {
+					blankAfter.add(heading.lineIndex);
+				}
+			}
+		});
+
+		const output: string[] = [];
+		lines.forEach((line, lineIndex) => {
+			if (blankBefore.has(lineIndex) && !blankAfter.has(lineIndex - 1)) {
+				output.push('');
+			}
+			output.push(line);
+			if (blankAfter.has(lineIndex)) {
+				output.push('');
+			}
+		});
+
+		return output.join('\n');
+	}
+}
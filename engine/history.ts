@@ -0,0 +1,169 @@
+import { ChangeReport } from './report';
+
+/**
+ * Report history module
+ * Keeps per-rule problem counts of every vault dry run, renders them as a summary note
+ * showing how the vault converges, and decides which old reports to prune
+ */
+
+// Default folder for generated reports
+export const DEFAULT_REPORTS_FOLDER = 'Reports';
+// Name of the summary note in the reports folder
+export const HISTORY_NOTE_NAME = 'Report history.md';
+// Name of the tag inventory note in the reports folder
+export const TAG_INVENTORY_NOTE_NAME = 'Tag inventory.md';
+// Report files written by "Dry run: Entire vault"; only these are ever pruned
+export const REPORT_FILE_PREFIX = 'vault-lint-report-';
+// Timestamp in a report file name: an ISO date with `:` and `.` replaced by `-`
+const REPORT_TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\./;
+// Runs kept in the history
+const MAX_HISTORY_RUNS = 100;
+// Runs shown in each trend
+const TREND_RUNS = 8;
+
+/**
+ * Problem counts of one vault dry run
+ */
+export interface ReportRun {
+	timestamp: string;
+	// Report file written by the run, relative to the vault
+	reportPath?: string;
+	files: number;
+	problems: number;
+	errors: number;
+	warnings: number;
+	// Problems by rule ID, e.g. { frontmatter: 412 }
+	rules: Record<string, number>;
+}
+
+/**
+ * A report file in the reports folder, with the time it was written in milliseconds
+ */
+export interface ReportFile {
+	path: string;
+	created: number;
+}
+
+/**
+ * The reports folder from settings: trimmed, without leading or trailing slashes
+ */
+export function normalizeReportsFolder(folder: string): string {
+	const normalized = folder.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+	return normalized || DEFAULT_REPORTS_FOLDER;
+}
+
+/**
+ * Count the problems of a dry run; suppressed diagnostics are not counted
+ */
+export function summarizeReports(reports: ChangeReport[], reportPath?: string, date: Date = new Date()): ReportRun {
+	const run: ReportRun = { timestamp: date.toISOString(), reportPath, files: reports.length, problems: 0, errors: 0, warnings: 0, rules: {} };
+
+	for (const report of reports) {
+		for (const diagnostic of report.diagnostics) {
+			run.problems++;
+			if (diagnostic.severity === 'error') {
+				run.errors++;
+			} else if (diagnostic.severity === 'warning') {
+				run.warnings++;
+			}
+			run.rules[diagnostic.ruleId] = (run.rules[diagnostic.ruleId] || 0) + 1;
+		}
+	}
+
+	return run;
+}
+
+/**
+ * Add a run to the history, oldest first, keeping the most recent runs
+ */
+export function addRun(history: ReportRun[], run: ReportRun): ReportRun[] {
+	return [...history, run].slice(-MAX_HISTORY_RUNS);
+}
+
+/**
+ * When a report was written, from the timestamp in its file name (file times are not
+ * reliable, e.g. sync clients rewrite them); null for other names
+ */
+export function reportFileTime(fileName: string): number | null {
+	if (!fileName.startsWith(REPORT_FILE_PREFIX)) {
+		return null;
+	}
+	const match = fileName.slice(REPORT_FILE_PREFIX.length).match(REPORT_TIMESTAMP_REGEX);
+	if (!match) {
+		return null;
+	}
+	const time = Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`);
+	return isNaN(time) ? null : time;
+}
+
+/**
+ * Reports to delete: beyond the newest `keepCount` (0 keeps any number) or older than
+ * `maxAgeDays` (0 keeps any age). The newest report is always kept.
+ */
+export function selectReportsToPrune(files: ReportFile[], keepCount: number, maxAgeDays: number, now: number = Date.now()): string[] {
+	const sorted = [...files].sort((a, b) => b.created - a.created);
+	const cutoff = now - maxAgeDays * 24 * 60 * 60 * 1000;
+
+	return sorted
+		.filter((file, index) => index > 0 && (
+			(keepCount > 0 && index >= keepCount) ||
+			(maxAgeDays > 0 && file.created < cutoff)
+		))
+		.map(file => file.path);
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Link to a run's report while it still exists
+ */
+function reportLink(run: ReportRun, existingReports: Set<string>): string {
+	if (!run.reportPath || !existingReports.has(run.reportPath)) {
+		return '';
+	}
+	return run.reportPath.endsWith('.md')
+		? `[[${run.reportPath.replace(/\.md$/, '')}\\|report]]`
+		: `\`${escapeTableCell(run.reportPath.split('/').pop() || run.reportPath)}\``;
+}
+
+/**
+ * Summary note: per-rule trends over the last runs, then a table of every run, newest first
+ */
+export function formatHistoryAsMarkdown(
+	history: ReportRun[],
+	existingReports: Set<string> = new Set(),
+	describeRule: (ruleId: string) => string = ruleId => ruleId
+): string {
+	let markdown = `# Vault Linting History\n\n`;
+	if (history.length === 0) {
+		return markdown + 'No dry runs yet.\n';
+	}
+
+	const recent = history.slice(-TREND_RUNS);
+	const latest = history[history.length - 1];
+	markdown += `**Last run**: ${latest.timestamp}\n`;
+	markdown += `**Problems**: ${recent.map(run => run.problems).join(' → ')}\n\n`;
+
+	const ruleIds = Array.from(new Set(([] as string[]).concat(...recent.map(run => Object.keys(run.rules))))).sort();
+	if (ruleIds.length > 0) {
+		markdown += `## Trends (last ${recent.length} runs)\n\n`;
+		markdown += `| Rule | Description | Trend | Latest |\n`;
+		markdown += `| --- | --- | --- | --- |\n`;
+		for (const ruleId of ruleIds) {
+			const counts = recent.map(run => run.rules[ruleId] || 0);
+			markdown += `| \`${escapeTableCell(ruleId)}\` | ${escapeTableCell(describeRule(ruleId))} | ${counts.join(' → ')} | ${counts[counts.length - 1]} |\n`;
+		}
+		markdown += '\n';
+	}
+
+	markdown += `## Runs\n\n`;
+	markdown += `| Date | Files | Problems | Errors | Warnings | Report |\n`;
+	markdown += `| --- | --- | --- | --- | --- | --- |\n`;
+	for (const run of [...history].reverse()) {
+		markdown += `| ${run.timestamp} | ${run.files} | ${run.problems} | ${run.errors} | ${run.warnings} | ${reportLink(run, existingReports)} |\n`;
+	}
+
+	return markdown;
+}
@@ -0,0 +1,275 @@
+import { detectHeadings, getProtectedRanges, isInRange, scanSegments } from './scan';
+import { getEntryValue, parseFrontmatterYaml } from './yaml';
+
+/**
+ * Vault link index
+ * Resolves wikilink targets against the files in the vault and formats links
+ * in the configured style, without depending on the Obsidian API
+ */
+
+/**
+ * A file known to the index, with the aliases declared in its frontmatter
+ * and the headings and block IDs that links can point into
+ */
+export interface LinkIndexEntry {
+	path: string;
+	aliases?: string[];
+	headings?: string[];
+	blockIds?: string[];
+}
+
+// A block ID at the end of a line: "Some paragraph ^block-id"
+const BLOCK_ID_REGEX = /(?:^|[ \t])\^([A-Za-z0-9-]+)[ \t]*$/gm;
+
+/**
+ * Build an index entry from a file's content, for use outside Obsidian where the
+ * metadata cache is not available. Only Markdown files have aliases, headings and blocks.
+ */
+export function createLinkIndexEntry(path: string, content: string | null): LinkIndexEntry {
+	if (content === null || !path.toLowerCase().endsWith('.md')) {
+		return { path };
+	}
+
+	const aliases: string[] = [];
+	const frontmatter = scanSegments(content).find(segment => segment.type === 'frontmatter');
+	if (frontmatter) {
+		const body = frontmatter.content.split(/\r?\n/).slice(1, -1).join('\n');
+		for (const entry of parseFrontmatterYaml(body).entries) {
+			const value = entry.key === 'aliases' || entry.key === 'alias' ? getEntryValue(entry) : null;
+			aliases.push(...(Array.isArray(value) ? value : value ? [value] : []).filter(alias => alias !== ''));
+		}
+	}
+
+	const headings = detectHeadings(content).map(range => range.content.replace(/^#+\s+/, '').replace(/\s+#+\s*$/, '').trim());
+
+	const blockIds: string[] = [];
+	const protectedRanges = getProtectedRanges(content);
+	let match;
+	BLOCK_ID_REGEX.lastIndex = 0;
+	while ((match = BLOCK_ID_REGEX.exec(content)) !== null) {
+		if (!isInRange(match.index + match[0].indexOf('^'), protectedRanges)) {
+			blockIds.push(match[1]);
+		}
+	}
+
+	return { path, aliases, headings, blockIds };
+}
+
+export type LinkResolution =
+	| { status: 'resolved'; path: string }
+	| { status: 'ambiguous'; candidates: string[] }
+	| { status: 'unresolved' };
+
+export type WikilinkStyle = 'shortest' | 'relative' | 'absolute';
+
+export class VaultLinkIndex {
+	private entries = new Map<string, LinkIndexEntry>();
+	private byPath = new Map<string, string>();
+	private byName = new Map<string, string[]>();
+	private byAlias = new Map<string, string[]>();
+
+	constructor(entries: LinkIndexEntry[]) {
+		for (const entry of entries) {
+			this.add(entry);
+		}
+	}
+
+	private add(entry: LinkIndexEntry): void {
+		this.entries.set(entry.path, entry);
+		this.byPath.set(entry.path.toLowerCase(), entry.path);
+		addTo(this.byName, linkName(entry.path).toLowerCase(), entry.path);
+		for (const alias of entry.aliases || []) {
+			addTo(this.byAlias, alias.toLowerCase(), entry.path);
+		}
+	}
+
+	/**
+	 * Add a file, or replace its entry after the file was edited
+	 */
+	update(entry: LinkIndexEntry): void {
+		const previous = this.entries.get(entry.path);
+		if (previous) {
+			removeFrom(this.byName, linkName(previous.path).toLowerCase(), previous.path);
+			for (const alias of previous.aliases || []) {
+				removeFrom(this.byAlias, alias.toLowerCase(), previous.path);
+			}
+		}
+		this.add(entry);
+	}
+
+	/**
+	 * Look up an exact vault path, with or without the .md extension
+	 */
+	private lookup(path: string): string | null {
+		const key = normalizePath(path).toLowerCase();
+		return this.byPath.get(key) || this.byPath.get(key + '.md') || null;
+	}
+
+	/**
+	 * Resolve a link path (without subpath or alias) written in the note at sourcePath.
+	 * Mirrors Obsidian's order: explicit relative path, vault path, folder path relative
+	 * to the source folder, then a unique file name or path suffix. Like Obsidian, frontmatter
+	 * aliases are not link targets: [[Alias]] creates a new note (see findByAlias).
+	 */
+	resolve(linkpath: string, sourcePath: string): LinkResolution {
+		const target = linkpath.trim();
+		if (target === '') {
+			return { status: 'unresolved' };
+		}
+
+		const sourceFolder = dirname(sourcePath);
+
+		if (/^\.\.?\//.test(target)) {
+			const path = this.lookup(joinPath(sourceFolder, target));
+			return path ? { status: 'resolved', path } : { status: 'unresolved' };
+		}
+
+		// A bare name shared by several files is ambiguous even if one sits next to the source
+		const exact = this.lookup(target)
+			|| (sourceFolder && target.includes('/') ? this.lookup(joinPath(sourceFolder, target)) : null);
+		if (exact) {
+			return { status: 'resolved', path: exact };
+		}
+
+		const lowerTarget = stripMarkdownExtension(target).toLowerCase();
+		const candidates = target.includes('/')
+			? Array.from(this.byPath.values()).filter(path => {
+				const lowerPath = path.toLowerCase();
+				return lowerPath.endsWith('/' + lowerTarget) || lowerPath.endsWith('/' + lowerTarget + '.md');
+			})
+			: this.byName.get(lowerTarget) || [];
+
+		if (candidates.length === 1) {
+			return { status: 'resolved', path: candidates[0] };
+		}
+		if (candidates.length > 1) {
+			return { status: 'ambiguous', candidates: candidates.slice().sort() };
+		}
+		return { status: 'unresolved' };
+	}
+
+	/**
+	 * Files declaring a link path as a frontmatter alias, sorted. Only used to suggest the
+	 * link that was probably meant; the alias itself does not resolve.
+	 */
+	findByAlias(linkpath: string): string[] {
+		return (this.byAlias.get(stripMarkdownExtension(linkpath.trim()).toLowerCase()) || []).slice().sort();
+	}
+
+	/**
+	 * The indexed entry for an exact vault path
+	 */
+	getEntry(path: string): LinkIndexEntry | null {
+		return this.entries.get(path) || null;
+	}
+
+	/**
+	 * All indexed vault paths
+	 */
+	getPaths(): string[] {
+		return Array.from(this.entries.keys());
+	}
+
+	/**
+	 * Whether a file's link name (basename, without .md) is unique in the vault
+	 */
+	isNameUnique(path: string): boolean {
+		return (this.byName.get(linkName(path).toLowerCase()) || []).length === 1;
+	}
+
+	/**
+	 * Format the link path for targetPath as written from sourcePath in the given style
+	 */
+	formatLinkPath(targetPath: string, sourcePath: string, style: WikilinkStyle): string {
+		const absolute = stripMarkdownExtension(targetPath);
+
+		switch (style) {
+			case 'shortest':
+				// Only drop the folder when the name alone cannot resolve to another file
+				return this.isNameUnique(targetPath) ? linkName(targetPath) : absolute;
+			case 'relative': {
+				const relative = relativePath(dirname(sourcePath), absolute);
+				return relative.startsWith('../') ? relative : './' + relative;
+			}
+			case 'absolute':
+			default:
+				return absolute;
+		}
+	}
+}
+
+function addTo(map: Map<string, string[]>, key: string, value: string): void {
+	const list = map.get(key);
+	if (list) {
+		list.push(value);
+	} else {
+		map.set(key, [value]);
+	}
+}
+
+function removeFrom(map: Map<string, string[]>, key: string, value: string): void {
+	const list = (map.get(key) || []).filter(item => item !== value);
+	if (list.length > 0) {
+		map.set(key, list);
+	} else {
+		map.delete(key);
+	}
+}
+
+/**
+ * The name a file is linked by: its basename, without the extension for Markdown files
+ */
+export function linkName(path: string): string {
+	return stripMarkdownExtension(path.split('/').pop() || path);
+}
+
+function stripMarkdownExtension(path: string): string {
+	return path.replace(/\.md$/i, '');
+}
+
+/**
+ * Folder part of a vault path ('' for the vault root)
+ */
+export function dirname(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Collapse '.', '..' and duplicate slashes in a vault path
+ */
+export function normalizePath(path: string): string {
+	const parts: string[] = [];
+	for (const part of path.split('/')) {
+		if (part === '' || part === '.') {
+			continue;
+		}
+		if (part === '..') {
+			parts.pop();
+		} else {
+			parts.push(part);
+		}
+	}
+	return parts.join('/');
+}
+
+/**
+ * Join a folder and a (possibly relative) path
+ */
+export function joinPath(folder: string, path: string): string {
+	return normalizePath(folder ? `${folder}/${path}` : path);
+}
+
+/**
+ * Path of target relative to the folder `from`
+ */
+export function relativePath(from: string, target: string): string {
+	const fromParts = from === '' ? [] : from.split('/');
+	const targetParts = target.split('/');
+	let common = 0;
+	while (common < fromParts.length && common < targetParts.length - 1 && fromParts[common] === targetParts[common]) {
+		common++;
+	}
+	const up = fromParts.slice(common).map(() => '..');
+	return [...up, ...targetParts.slice(common)].join('/');
+}
@@ -0,0 +1,183 @@
+import { linkName, VaultLinkIndex } from './linkIndex';
+import { detectHeadings, lineNumberAt, scanSegments } from './scan';
+
+/**
+ * Link validation module
+ * Finds wikilinks, embeds and relative Markdown links whose target file,
+ * heading or block does not exist in the vault
+ */
+
+export interface BrokenLink {
+	target: string;
+	lineNumber: number;
+	reason: 'missing-file' | 'missing-heading' | 'missing-block';
+	suggestion?: string;
+}
+
+/**
+ * Compare headings the way Obsidian matches them in links: case-insensitive,
+ * ignoring characters that cannot appear in a link subpath
+ */
+function headingKey(heading: string): string {
+	return heading
+		.replace(/[#^|:[\]]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.toLowerCase();
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+	if (a === b) {
+		return 0;
+	}
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Pick the closest candidate to a mistyped value, if any is close enough to be a likely typo
+ */
+export function closestMatch(value: string, candidates: string[]): string | undefined {
+	const lowerValue = value.toLowerCase();
+	const threshold = Math.max(2, Math.floor(lowerValue.length / 4));
+	let best: string | undefined;
+	let bestDistance = Infinity;
+
+	for (const candidate of candidates) {
+		const distance = editDistance(lowerValue, candidate.toLowerCase());
+		// Ties are broken alphabetically so suggestions are deterministic
+		if (distance < bestDistance || distance === bestDistance && best !== undefined && candidate < best) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+
+	return bestDistance <= threshold ? best : undefined;
+}
+
+/**
+ * Check a #heading, #^block or nested #A#B subpath against the headings and blocks of a file
+ */
+function checkSubpath(
+	subpath: string,
+	headings: string[] | undefined,
+	blockIds: string[] | undefined
+): Pick<BrokenLink, 'reason' | 'suggestion'> | null {
+	// Files indexed without headings or blocks cannot be checked
+	if (subpath.startsWith('^')) {
+		const blockId = subpath.slice(1);
+		if (!blockIds || blockIds.includes(blockId)) {
+			return null;
+		}
+		return { reason: 'missing-block', suggestion: closestMatch(blockId, blockIds) };
+	}
+
+	// Only the last heading of a nested #A#B subpath has to exist
+	const heading = subpath.split('#').filter(part => part.trim() !== '').pop() || '';
+	if (!headings || heading === '' || headings.some(existing => headingKey(existing) === headingKey(heading))) {
+		return null;
+	}
+	return { reason: 'missing-heading', suggestion: closestMatch(heading, headings) };
+}
+
+/**
+ * Split a Markdown link destination segment "(path.md#anchor "title")" into a decoded path
+ */
+function markdownLinkTarget(segment: string): string | null {
+	const inner = segment.slice(1, -1).trim();
+	const destination = inner.startsWith('<')
+		? inner.slice(1, inner.indexOf('>'))
+		: inner.split(/[ \t]+/)[0];
+
+	// External URLs (http:, mailto:, obsidian: ...) are not vault links
+	if (destination === '' || /^[a-zA-Z][a-zA-Z0-9+.\-]*:/.test(destination)) {
+		return null;
+	}
+
+	try {
+		return decodeURI(destination);
+	} catch (error) {
+		return destination;
+	}
+}
+
+/**
+ * Find links in content that do not resolve to a file, heading or block in the vault.
+ * Ambiguous links are not broken; they are reported by the wikilink module.
+ */
+export function findBrokenLinks(content: string, filePath: string, linkIndex: VaultLinkIndex): BrokenLink[] {
+	const brokenLinks: BrokenLink[] = [];
+	const ownHeadings = detectHeadings(content).map(range => range.content.replace(/^#+\s+/, '').trim());
+	const ownBlockIds = (content.match(/\s\^[a-zA-Z0-9-]+$/gm) || []).map(id => id.trim().slice(1));
+	let names: string[] | null = null;
+
+	for (const segment of scanSegments(content)) {
+		let target: string;
+		let displayTarget: string;
+
+		if (segment.type === 'wikilink' || segment.type === 'embed') {
+			const inner = segment.content.replace(/^!?\[\[/, '').replace(/\]\]$/, '');
+			target = inner.split(/\\?\|/)[0].trim();
+			displayTarget = segment.content;
+		} else if (segment.type === 'url' && segment.content.startsWith('(')) {
+			const destination = markdownLinkTarget(segment.content);
+			if (destination === null) {
+				continue;
+			}
+			target = destination;
+			displayTarget = destination;
+		} else {
+			continue;
+		}
+
+		const hashIndex = target.indexOf('#');
+		const path = hashIndex === -1 ? target : target.slice(0, hashIndex);
+		const subpath = hashIndex === -1 ? '' : target.slice(hashIndex + 1);
+		const lineNumber = lineNumberAt(content, segment.start);
+
+		if (path.trim() === '') {
+			// Link to a heading or block in this note
+			const problem = subpath ? checkSubpath(subpath, ownHeadings, ownBlockIds) : null;
+			if (problem) {
+				brokenLinks.push({ target: displayTarget, lineNumber, ...problem });
+			}
+			continue;
+		}
+
+		const resolution = linkIndex.resolve(path, filePath);
+		if (resolution.status === 'ambiguous') {
+			continue;
+		}
+		if (resolution.status === 'unresolved') {
+			// A frontmatter alias does not resolve; suggest linking the note with the alias as display text
+			const aliased = linkIndex.findByAlias(path);
+			names = names || linkIndex.getPaths().map(indexed => linkName(indexed));
+			const suggestion = aliased.length > 0
+				? `${linkIndex.formatLinkPath(aliased[0], filePath, 'shortest')}|${path.trim()}`
+				: closestMatch(linkName(path), names);
+			brokenLinks.push({ target: displayTarget, lineNumber, reason: 'missing-file', suggestion });
+			continue;
+		}
+
+		if (subpath) {
+			const entry = linkIndex.getEntry(resolution.path);
+			const problem = checkSubpath(subpath, entry?.headings, entry?.blockIds);
+			if (problem) {
+				brokenLinks.push({ target: displayTarget, lineNumber, ...problem });
+			}
+		}
+	}
+
+	return brokenLinks;
+}
@@ -1,56 +1,330 @@
-import { VaultLinterSettings } from '../settings';
-import { FrontmatterEnforcer } from './frontmatter';
-import { FormattingNormalizer } from './format';
-import { TagRules } from './tags';
-import { WikilinkInserter } from './backlinks';
+import { CustomRuleDefinition, VaultLinterSettings } from '../settings';
+import { createDefaultRegistry } from './builtinRules';
+import { createCustomRule, CUSTOM_RULE_PREFIX, validateCustomRule } from './customRules';
+import { applyFixes, Diagnostic, diagnosticsFromFix, LineMap, lineRange, touchedLines } from './diagnostics';
+import { VaultLinkIndex } from './linkIndex';
+import { BrokenLink, findBrokenLinks } from './links';
+import { describeBrokenLink } from './report';
+import { getRuleSeverity, isRuleEnabled, Rule, RuleContext, RuleRegistry } from './rules';
+import { resolveSettings } from './scope';
+import { isSuppressed, parseSuppressions, Suppressions } from './suppress';
+
+// Suppression ID for broken link checks, which are not a registry rule
+const LINKS_RULE_ID = 'links';
+// Check-and-apply passes before normalize() stops on rules whose fixes keep changing the note
+const MAX_FIX_PASSES = 10;
+// Diagnostic type for rules whose fixes still change the note after the last pass
+export const FIXES_NOT_SETTLED = 'fixes-not-settled';
+
+/**
+ * Thrown by normalize() when rules keep changing the note, e.g. two rules undoing each
+ * other's fixes, so the partly fixed content is not written as if it were normalized
+ */
+export class FixesNotSettledError extends Error {
+	ruleIds: string[];
+
+	constructor(ruleIds: string[]) {
+		super(`Fixes did not settle after ${MAX_FIX_PASSES} passes; rules still changing the note: ${ruleIds.join(', ')}`);
+		this.ruleIds = ruleIds;
+	}
+}
+
+/**
+ * Everything the checks find in one note
+ */
+export interface CheckResult {
+	// Problems in document order; those a rule can fix carry the edit that fixes them
+	diagnostics: Diagnostic[];
+	// Diagnostics silenced by suppression directives or `lint: false`
+	suppressed: Diagnostic[];
+	// Broken links, also included in the diagnostics
+	brokenLinks: BrokenLink[];
+}
+
+/**
+ * Check result together with the fully normalized content. When fixes do not settle,
+ * the diagnostics include a FIXES_NOT_SETTLED error per rule still changing the note.
+ */
+export interface LintResult extends CheckResult {
+	normalized: string;
+}
 
 /**
  * Normalization orchestrator
- * Coordinates the linting pipeline: frontmatter → formatting → tags → wikilinks
+ * Runs the enabled rules of the registry in order; by default:
+ * frontmatter → formatting → headings → tags → wikilinks
+ *
+ * Every rule's fix is expressed as diagnostics with edits, and normalization applies
+ * those edits, so reports, editor markers and batch runs share the same view of what
+ * each rule changes.
  */
 export class NormalizationPipeline {
-	private frontmatterEnforcer: FrontmatterEnforcer;
-	private formattingNormalizer: FormattingNormalizer;
-	private tagRules: TagRules;
-	private wikilinkInserter: WikilinkInserter;
+	readonly registry: RuleRegistry;
+	private linkIndex: VaultLinkIndex | null = null;
+	private settings: VaultLinterSettings;
+	// Custom rules from the vault's .vault-linter.json, registered with those from settings
+	private vaultCustomRules: CustomRuleDefinition[] = [];
+	// Problems with the custom rule definitions, e.g. invalid patterns
+	customRuleErrors: string[] = [];
 
-	constructor(settings: VaultLinterSettings) {
-		this.frontmatterEnforcer = new FrontmatterEnforcer(settings);
-		this.formattingNormalizer = new FormattingNormalizer(settings);
-		this.tagRules = new TagRules(settings);
-		this.wikilinkInserter = new WikilinkInserter(settings);
+	constructor(settings: VaultLinterSettings, registry: RuleRegistry = createDefaultRegistry()) {
+		this.settings = settings;
+		this.registry = registry;
+		this.registerCustomRules();
 	}
 
 	/**
-	 * Apply all linting rules to content in a deterministic order
-	 * Pipeline: frontmatter → formatting → tags → wikilinks
-	 * Each transformation is idempotent and produces minimal diffs
+	 * Re-register the custom rules after the built-in ones.
+	 * A vault file definition replaces a settings definition with the same ID.
 	 */
-	normalize(content: string, fileName: string): string {
-		let normalized = content;
+	private registerCustomRules(): void {
+		for (const rule of this.registry.getAll()) {
+			if (rule.id.startsWith(CUSTOM_RULE_PREFIX)) {
+				this.registry.unregister(rule.id);
+			}
+		}
+
+		const definitions = new Map<string, CustomRuleDefinition>();
+		this.customRuleErrors = [];
+		for (const definition of [...this.settings.customRules, ...this.vaultCustomRules]) {
+			const problem = validateCustomRule(definition);
+			if (problem) {
+				this.customRuleErrors.push(problem);
+				continue;
+			}
+			definitions.set(definition.id, definition);
+		}
+		definitions.forEach(definition => this.registry.register(createCustomRule(definition)));
+	}
+
+	private context(filePath: string): RuleContext {
+		return { filePath, settings: resolveSettings(this.settings, filePath), linkIndex: this.linkIndex };
+	}
+
+	/**
+	 * Description of a rule for reports; unknown IDs (e.g. "links") are returned as they are
+	 */
+	describeRule(ruleId: string): string {
+		if (ruleId === LINKS_RULE_ID) {
+			return 'Links point to existing notes, headings and blocks';
+		}
+		return this.registry.get(ruleId)?.description || ruleId;
+	}
+
+	/**
+	 * Find every problem in a note. Each rule's fix is computed from the given content,
+	 * independently of the other rules, so every fix applies to that content.
+	 */
+	check(content: string, filePath: string): CheckResult {
+		const context = this.context(filePath);
+		const suppressions = parseSuppressions(content);
+		const lines = new LineMap(content);
+		const diagnostics: Diagnostic[] = [];
+		const suppressed: Diagnostic[] = [];
 
-		// Step 1: Enforce frontmatter
-		normalized = this.frontmatterEnforcer.enforce(normalized, fileName);
+		const add = (diagnostic: Diagnostic) => {
+			(this.isSuppressed(suppressions, lines, diagnostic) ? suppressed : diagnostics).push(diagnostic);
+		};
 
-		// Step 2: Normalize formatting
-		normalized = this.formattingNormalizer.normalize(normalized);
+		for (const rule of this.registry.getAll()) {
+			if (isRuleEnabled(context.settings, rule)) {
+				this.checkRule(rule, content, context, lines).forEach(add);
+			}
+		}
 
-		// Step 3: Enforce tag rules
-		normalized = this.tagRules.enforce(normalized);
+		const brokenLinks: BrokenLink[] = [];
+		for (const link of this.findLinks(content, filePath)) {
+			const range = lineRange(content, lines, link.lineNumber);
+			// Underline the link itself when its target can be found on the line
+			const index = content.slice(range.from, range.to).indexOf(link.target);
+			const diagnostic: Diagnostic = {
+				ruleId: LINKS_RULE_ID,
+				type: 'broken-link',
+				severity: 'warning',
+				message: `Broken link ${link.target}: ${describeBrokenLink(link)}`,
+				lineNumber: link.lineNumber,
+				from: index === -1 ? range.from : range.from + index,
+				to: index === -1 ? range.to : range.from + index + link.target.length
+			};
+			add(diagnostic);
+			if (!this.isSuppressed(suppressions, lines, diagnostic)) {
+				brokenLinks.push(link);
+			}
+		}
 
-		// Step 4: Normalize wikilinks (safe backlink insertion)
-		normalized = this.wikilinkInserter.normalize(normalized);
+		const byPosition = (a: Diagnostic, b: Diagnostic) => a.from - b.from || a.to - b.to;
+		return { diagnostics: diagnostics.sort(byPosition), suppressed: suppressed.sort(byPosition), brokenLinks };
+	}
+
+	/**
+	 * A fixable diagnostic per change the fix of a rule makes
+	 */
+	private fixDiagnostics(rule: Rule, content: string, context: RuleContext, lines: LineMap): Diagnostic[] {
+		const fixed = rule.fix ? rule.fix(content, context) : content;
+		return fixed === content
+			? []
+			: diagnosticsFromFix(rule.id, getRuleSeverity(context.settings, rule), content, fixed, lines);
+	}
 
+	/**
+	 * Diagnostics of one rule: its fixable changes, then the problems its check reports
+	 */
+	private checkRule(rule: Rule, content: string, context: RuleContext, lines: LineMap): Diagnostic[] {
+		const severity = getRuleSeverity(context.settings, rule);
+		const diagnostics = this.fixDiagnostics(rule, content, context, lines);
+
+		for (const error of rule.check(content, context)) {
+			// Problems without a line belong to the whole note
+			const lineNumber = error.lineNumber || 1;
+			diagnostics.push({
+				ruleId: rule.id,
+				type: error.type,
+				severity,
+				message: error.message,
+				lineNumber,
+				...lineRange(content, lines, lineNumber)
+			});
+		}
+
+		return diagnostics;
+	}
+
+	private isSuppressed(suppressions: Suppressions, lines: LineMap, diagnostic: Diagnostic): boolean {
+		return touchedLines(lines, diagnostic).some(line => isSuppressed(suppressions, diagnostic.ruleId, line));
+	}
+
+	/**
+	 * Apply the fixes of diagnostics returned by check() for the same content
+	 */
+	apply(content: string, fixes: Diagnostic[]): string {
+		return applyFixes(content, fixes);
+	}
+
+	/**
+	 * Apply every fix check() reports, then check the result again until no fixable
+	 * problem is left. Fixes overlapping an earlier one are applied on a later pass, and
+	 * suppressed fixes never are, exactly as in reports and the editor. Throws a
+	 * FixesNotSettledError when fixes still change the note after the last pass.
+	 */
+	normalize(content: string, filePath: string): string {
+		const { normalized, unsettled } = this.applyUntilFixed(content, filePath, this.check(content, filePath));
+		if (unsettled.length > 0) {
+			throw new FixesNotSettledError(unsettled);
+		}
 		return normalized;
 	}
 
 	/**
-	 * Update settings and reinitialize all modules
+	 * Apply fixes pass by pass; `unsettled` lists the rules whose fixes still change the
+	 * note after the last pass
+	 */
+	private applyUntilFixed(content: string, filePath: string, result: CheckResult): { normalized: string; unsettled: string[] } {
+		let normalized = content;
+		let fixes = result.diagnostics.filter(diagnostic => diagnostic.fix);
+
+		for (let pass = 0; fixes.length > 0 && pass < MAX_FIX_PASSES; pass++) {
+			const applied = applyFixes(normalized, fixes);
+			if (applied === normalized) {
+				return { normalized, unsettled: [] };
+			}
+			normalized = applied;
+			fixes = this.check(normalized, filePath).diagnostics.filter(diagnostic => diagnostic.fix);
+		}
+
+		const unsettled = applyFixes(normalized, fixes) === normalized ? [] : fixes.map(diagnostic => diagnostic.ruleId);
+		return { normalized, unsettled: unsettled.filter((ruleId, index) => unsettled.indexOf(ruleId) === index) };
+	}
+
+	/**
+	 * Apply the fix of a single enabled rule, e.g. for an editor quick fix
+	 */
+	fixRule(content: string, filePath: string, ruleId: string): string {
+		const context = this.context(filePath);
+		const rule = this.registry.get(ruleId);
+		if (!rule || !isRuleEnabled(context.settings, rule)) {
+			return content;
+		}
+		return this.applyRule(rule, content, context);
+	}
+
+	/**
+	 * Apply one rule's fixes, except those touching lines where the rule is suppressed.
+	 * Directives are re-read each step since earlier fixes may have moved them.
+	 */
+	private applyRule(rule: Rule, content: string, context: RuleContext): string {
+		const suppressions = parseSuppressions(content);
+		if (!suppressions.fileDisabled && suppressions.ranges.length === 0) {
+			// Same result as applying every fix, without diffing
+			return rule.fix ? rule.fix(content, context) : content;
+		}
+		const lines = new LineMap(content);
+		const fixes = this.fixDiagnostics(rule, content, context, lines)
+			.filter(diagnostic => !this.isSuppressed(suppressions, lines, diagnostic));
+		return applyFixes(content, fixes);
+	}
+
+	/**
+	 * Problems that normalization cannot fix (e.g. malformed frontmatter YAML),
+	 * tagged with the rule that found them and its configured severity
+	 */
+	validate(content: string, filePath: string): Diagnostic[] {
+		return this.check(content, filePath).diagnostics
+			.filter(diagnostic => !diagnostic.fix && diagnostic.ruleId !== LINKS_RULE_ID);
+	}
+
+	/**
+	 * Check a note and normalize it
+	 */
+	lint(content: string, filePath: string): LintResult {
+		const result = this.check(content, filePath);
+		const { normalized, unsettled } = this.applyUntilFixed(content, filePath, result);
+		const lines = new LineMap(content);
+		// Problems of the whole note, so they come first in document order
+		const diagnostics = [...unsettled.map((ruleId): Diagnostic => ({
+			ruleId,
+			type: FIXES_NOT_SETTLED,
+			severity: 'error',
+			message: `Fixes of rule "${ruleId}" still change the note after ${MAX_FIX_PASSES} passes; rules may be undoing each other's fixes`,
+			lineNumber: 1,
+			...lineRange(content, lines, 1)
+		})), ...result.diagnostics];
+		return { ...result, diagnostics, normalized };
+	}
+
+	/**
+	 * Find links whose target file, heading or block does not exist in the vault
+	 */
+	findBrokenLinks(content: string, filePath: string): BrokenLink[] {
+		return this.check(content, filePath).brokenLinks;
+	}
+
+	private findLinks(content: string, filePath: string): BrokenLink[] {
+		if (!resolveSettings(this.settings, filePath).checkBrokenLinks || !this.linkIndex) {
+			return [];
+		}
+		return findBrokenLinks(content, filePath, this.linkIndex);
+	}
+
+	/**
+	 * Provide the vault's files so wikilinks can be resolved to their targets
+	 */
+	setLinkIndex(linkIndex: VaultLinkIndex | null): void {
+		this.linkIndex = linkIndex;
+	}
+
+	/**
+	 * Use the custom rules of the vault's .vault-linter.json
+	 */
+	setVaultCustomRules(definitions: CustomRuleDefinition[]): void {
+		this.vaultCustomRules = definitions;
+		this.registerCustomRules();
+	}
+
+	/**
+	 * Update settings; rules read them on every run, custom rules are re-registered
 	 */
 	updateSettings(settings: VaultLinterSettings): void {
-		this.frontmatterEnforcer = new FrontmatterEnforcer(settings);
-		this.formattingNormalizer = new FormattingNormalizer(settings);
-		this.tagRules = new TagRules(settings);
-		this.wikilinkInserter = new WikilinkInserter(settings);
+		this.settings = settings;
+		this.registerCustomRules();
 	}
 }
@@ -0,0 +1,55 @@
+/**
+ * Progress module
+ * Bookkeeping for batch runs over many notes: per-file errors, the outcome of a run
+ * and the estimated time left
+ */
+
+/**
+ * A note a batch run failed on
+ */
+export interface BatchError {
+	path: string;
+	message: string;
+}
+
+export interface BatchResult {
+	total: number;
+	// Notes handled before the run finished or was cancelled, including failed ones
+	processed: number;
+	cancelled: boolean;
+	errors: BatchError[];
+}
+
+// Minimum time and notes before an estimate is shown; earlier ones jump around too much
+const MIN_ESTIMATE_ELAPSED = 1000;
+const MIN_ESTIMATE_PROCESSED = 3;
+
+export function describeError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Milliseconds left at the average pace so far, or null while too early to tell
+ */
+export function estimateRemaining(processed: number, total: number, elapsed: number): number | null {
+	if (processed < MIN_ESTIMATE_PROCESSED || elapsed < MIN_ESTIMATE_ELAPSED || processed >= total) {
+		return null;
+	}
+	return elapsed / processed * (total - processed);
+}
+
+/**
+ * A duration for display, e.g. "45 s", "2 min 5 s" or "1 h 3 min"
+ */
+export function formatDuration(milliseconds: number): string {
+	const seconds = Math.max(1, Math.round(milliseconds / 1000));
+	if (seconds < 60) {
+		return `${seconds} s`;
+	}
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return seconds % 60 > 0 ? `${minutes} min ${seconds % 60} s` : `${minutes} min`;
+	}
+	const hours = Math.floor(minutes / 60);
+	return minutes % 60 > 0 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
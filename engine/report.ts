@@ -3,150 +3,164 @@
  * Creates summaries of what was changed during normalization
  */
 
+import { Diagnostic } from './diagnostics';
+import { computeHunks, DiffHunk, diffLines, fenceDiff, formatUnifiedDiff } from './diff';
+import { BrokenLink } from './links';
+import { Severity } from './rules';
+
+// Rules with at most this many changes in a note list each change in reports
+const MAX_LISTED_CHANGES = 3;
+
 export interface ChangeReport {
 	filePath: string;
 	fileName: string;
 	changes: Change[];
+	errors: LintError[];
+	brokenLinks: BrokenLink[];
+	// Problems and fixes silenced by suppression directives or `lint: false`
+	suppressed: LintError[];
+	// The pipeline's diagnostics for the original content, for machine-readable formats
+	diagnostics: Diagnostic[];
+	suppressedDiagnostics: Diagnostic[];
 	originalContent: string;
 	normalizedContent: string;
+	// Line diff between original and normalized content, empty when unchanged
+	hunks: DiffHunk[];
 }
 
 export interface Change {
-	type: 'frontmatter-added' | 'frontmatter-normalized' | 'formatting-normalized' | 'tags-normalized' | 'wikilinks-normalized';
+	// ID of the rule that makes the change, e.g. 'tags'
+	type: string;
 	description: string;
+	// First affected line and all affected lines, numbered as in the original file
+	lineNumber?: number;
+	lines?: number[];
+}
+
+/**
+ * A problem the linter found but could not (or must not) fix automatically
+ */
+export interface LintError {
+	// Kind of problem, e.g. 'frontmatter-invalid' or 'heading-skipped-level'
+	type: string;
+	message: string;
 	lineNumber?: number;
+	// Set by the pipeline: the rule that reported the problem and its configured severity
+	ruleId?: string;
+	severity?: Severity;
+}
+
+/**
+ * A problem from the pipeline's diagnostics, as listed in reports
+ */
+function toLintError(diagnostic: Diagnostic): LintError {
+	return {
+		type: diagnostic.type,
+		message: diagnostic.message,
+		lineNumber: diagnostic.lineNumber,
+		ruleId: diagnostic.ruleId,
+		severity: diagnostic.severity
+	};
 }
 
 /**
- * Generate a change report by comparing original and normalized content
+ * One change per rule, covering the lines of all its fixable diagnostics.
+ * A rule with few changes lists their messages.
+ */
+function summarizeChanges(fixes: Diagnostic[], describeRule: (ruleId: string) => string): Change[] {
+	const byRule = new Map<string, Diagnostic[]>();
+	for (const fix of fixes) {
+		byRule.set(fix.ruleId, [...(byRule.get(fix.ruleId) || []), fix]);
+	}
+
+	return Array.from(byRule.entries()).map(([ruleId, diagnostics]) => {
+		const lines = Array.from(new Set(diagnostics.map(diagnostic => diagnostic.lineNumber))).sort((a, b) => a - b);
+		const details = diagnostics.length <= MAX_LISTED_CHANGES
+			? `: ${diagnostics.map(diagnostic => diagnostic.message).join('; ')}`
+			: '';
+		return { type: ruleId, description: describeRule(ruleId) + details, lineNumber: lines[0], lines };
+	});
+}
+
+/**
+ * Generate a change report from the pipeline's diagnostics for a note.
+ * Changes are the fixable diagnostics grouped by rule; the diff compares the
+ * original with the normalized content.
  */
 export function generateChangeReport(
 	filePath: string,
 	fileName: string,
 	originalContent: string,
-	normalizedContent: string
+	normalizedContent: string,
+	diagnostics: Diagnostic[] = [],
+	brokenLinks: BrokenLink[] = [],
+	suppressed: Diagnostic[] = [],
+	describeRule: (ruleId: string) => string = ruleId => ruleId
 ): ChangeReport {
-	const changes: Change[] = [];
-	
-	// Check if content changed
-	if (originalContent === normalizedContent) {
-		return {
-			filePath,
-			fileName,
-			changes: [],
-			originalContent,
-			normalizedContent
-		};
-	}
-	
-	// Detect frontmatter changes
-	const originalHasFrontmatter = originalContent.trimStart().startsWith('---');
-	const normalizedHasFrontmatter = normalizedContent.trimStart().startsWith('---');
-	
-	if (!originalHasFrontmatter && normalizedHasFrontmatter) {
-		changes.push({
-			type: 'frontmatter-added',
-			description: 'Added frontmatter',
-			lineNumber: 1
-		});
-	} else if (originalHasFrontmatter && normalizedHasFrontmatter) {
-		const originalFrontmatter = extractFrontmatter(originalContent);
-		const normalizedFrontmatter = extractFrontmatter(normalizedContent);
-		if (originalFrontmatter !== normalizedFrontmatter) {
-			changes.push({
-				type: 'frontmatter-normalized',
-				description: 'Normalized frontmatter',
-				lineNumber: 1
-			});
-		}
-	}
-	
-	// Detect formatting changes
-	if (hasFormattingChanges(originalContent, normalizedContent)) {
-		changes.push({
-			type: 'formatting-normalized',
-			description: 'Normalized formatting (line endings, blank lines, trailing newline)'
-		});
-	}
-	
-	// Detect tag changes
-	if (hasTagChanges(originalContent, normalizedContent)) {
-		changes.push({
-			type: 'tags-normalized',
-			description: 'Normalized tag formatting'
-		});
-	}
-	
-	// Detect wikilink changes
-	if (hasWikilinkChanges(originalContent, normalizedContent)) {
-		changes.push({
-			type: 'wikilinks-normalized',
-			description: 'Normalized wikilink paths'
-		});
-	}
-	
+	const changed = originalContent !== normalizedContent;
+
 	return {
 		filePath,
 		fileName,
-		changes,
+		changes: changed ? summarizeChanges(diagnostics.filter(diagnostic => diagnostic.fix), describeRule) : [],
+		// Broken links have their own section
+		errors: diagnostics.filter(diagnostic => !diagnostic.fix && diagnostic.type !== 'broken-link').map(toLintError),
+		brokenLinks,
+		suppressed: suppressed.map(diagnostic => diagnostic.fix
+			? { ...toLintError(diagnostic), type: 'suppressed-fix', message: `Fix not applied: ${diagnostic.message}` }
+			: toLintError(diagnostic)),
+		diagnostics,
+		suppressedDiagnostics: suppressed,
 		originalContent,
-		normalizedContent
+		normalizedContent,
+		hunks: changed ? computeHunks(diffLines(originalContent, normalizedContent)) : []
 	};
 }
 
 /**
- * Extract frontmatter from content
- * Supports both LF and CRLF line endings
+ * Describe why a link is broken, with a suggestion when one is available
  */
-function extractFrontmatter(content: string): string | null {
-	const trimmed = content.trimStart();
-	
-	// Require an opening frontmatter fence on the first line and a closing fence
-	// on its own line, supporting both LF and CRLF line endings.
-	const frontmatterMatch = trimmed.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
-	
-	if (!frontmatterMatch) {
-		return null;
-	}
-	
-	// Group 1 contains the content between the opening and closing fences.
-	return frontmatterMatch[1];
+export function describeBrokenLink(link: BrokenLink): string {
+	const problem = link.reason === 'missing-file'
+		? 'file not found'
+		: link.reason === 'missing-heading' ? 'heading not found' : 'block not found';
+	return link.suggestion ? `${problem} (did you mean "${link.suggestion}"?)` : problem;
 }
 
 /**
- * Check if there are formatting changes
+ * "[warning] " prefix for errors reported by a rule with a severity
  */
-function hasFormattingChanges(original: string, normalized: string): boolean {
-	// Compare without considering specific formatting details
-	const originalLines = original.split(/\r?\n/).filter(line => line.trim());
-	const normalizedLines = normalized.split(/\r?\n/).filter(line => line.trim());
-	
-	// If non-empty lines are the same but overall content differs, it's formatting
-	if (originalLines.join('\n') === normalizedLines.join('\n') && original !== normalized) {
-		return true;
-	}
-	
-	return false;
+function severityLabel(error: LintError): string {
+	return error.severity ? `[${error.severity}] ` : '';
 }
 
 /**
- * Check if there are tag changes
+ * Escape text for use inside a Markdown table cell
  */
-function hasTagChanges(original: string, normalized: string): boolean {
-	const originalTags = (original.match(/#([a-zA-Z0-9_\-\/]+)/g) || []).sort();
-	const normalizedTags = (normalized.match(/#([a-zA-Z0-9_\-\/]+)/g) || []).sort();
-	
-	return originalTags.join(',') !== normalizedTags.join(',');
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
 }
 
 /**
- * Check if there are wikilink changes
+ * Describe where a change applies: "line 4" or "lines 4, 9, 12"
  */
-function hasWikilinkChanges(original: string, normalized: string): boolean {
-	const originalLinks = (original.match(/\[\[([^\]]+)\]\]/g) || []).sort();
-	const normalizedLinks = (normalized.match(/\[\[([^\]]+)\]\]/g) || []).sort();
-	
-	return originalLinks.join(',') !== normalizedLinks.join(',');
+function describeChangeLines(change: Change): string {
+	const lines = change.lines || (change.lineNumber ? [change.lineNumber] : []);
+	if (lines.length === 0) {
+		return '';
+	}
+	if (lines.length === 1) {
+		return `line ${lines[0]}`;
+	}
+	const shown = lines.slice(0, 10).join(', ');
+	return `lines ${shown}${lines.length > 10 ? `, … (${lines.length - 10} more)` : ''}`;
+}
+
+/**
+ * Unified diff of a report, fenced as a ```diff block
+ */
+function formatReportDiff(report: ChangeReport): string {
+	return fenceDiff(formatUnifiedDiff(report.hunks, `a/${report.filePath}`, `b/${report.filePath}`));
 }
 
 /**
@@ -156,19 +170,61 @@ export function formatReportAsMarkdown(report: ChangeReport): string {
 	let markdown = `# Linting Report: ${report.fileName}\n\n`;
 	markdown += `**File Path**: \`${report.filePath}\`\n\n`;
 	
-	if (report.changes.length === 0) {
+	if (report.changes.length === 0 && report.errors.length === 0 && report.brokenLinks.length === 0) {
 		markdown += '✓ No changes needed - file already conforms to linting rules\n\n';
-		return markdown;
+		if (report.suppressed.length === 0) {
+			return markdown;
+		}
 	}
 	
-	markdown += `## Changes Applied (${report.changes.length})\n\n`;
+	if (report.changes.length > 0) {
+		markdown += `## Changes Applied (${report.changes.length})\n\n`;
+		
+		for (const change of report.changes) {
+			const lines = describeChangeLines(change);
+			const lineInfo = lines ? ` (${lines})` : '';
+			markdown += `- **${change.type}**${lineInfo}: ${change.description}\n`;
+		}
+		
+		markdown += '\n';
+	}
 	
-	for (const change of report.changes) {
-		const lineInfo = change.lineNumber ? ` (line ${change.lineNumber})` : '';
-		markdown += `- **${change.type}**${lineInfo}: ${change.description}\n`;
+	if (report.hunks.length > 0) {
+		markdown += `## Diff\n\n`;
+		markdown += `${formatReportDiff(report)}\n\n`;
 	}
 	
-	markdown += '\n';
+	if (report.errors.length > 0) {
+		markdown += `## Lint Errors (${report.errors.length})\n\n`;
+		
+		for (const error of report.errors) {
+			const lineInfo = error.lineNumber ? ` (line ${error.lineNumber})` : '';
+			markdown += `- **${error.type}**${lineInfo}: ${severityLabel(error)}${error.message}\n`;
+		}
+		
+		markdown += '\n';
+	}
+	
+	if (report.brokenLinks.length > 0) {
+		markdown += `## Broken Links (${report.brokenLinks.length})\n\n`;
+		
+		for (const link of report.brokenLinks) {
+			markdown += `- line ${link.lineNumber}: \`${link.target}\` - ${describeBrokenLink(link)}\n`;
+		}
+		
+		markdown += '\n';
+	}
+	
+	if (report.suppressed.length > 0) {
+		markdown += `## Suppressed (${report.suppressed.length})\n\n`;
+		
+		for (const item of report.suppressed) {
+			const lineInfo = item.lineNumber ? ` (line ${item.lineNumber})` : '';
+			markdown += `- **${item.ruleId || item.type}**${lineInfo}: ${item.message}\n`;
+		}
+		
+		markdown += '\n';
+	}
 	
 	return markdown;
 }
@@ -176,16 +232,26 @@ export function formatReportAsMarkdown(report: ChangeReport): string {
 /**
  * Format multiple reports as a single Markdown document
  */
-export function formatVaultReportAsMarkdown(reports: ChangeReport[]): string {
+export function formatVaultReportAsMarkdown(reports: ChangeReport[], excludedFiles = 0): string {
 	const timestamp = new Date().toISOString();
 	let markdown = `# Vault Linting Report\n\n`;
 	markdown += `**Generated**: ${timestamp}\n`;
-	markdown += `**Total Files Processed**: ${reports.length}\n\n`;
+	markdown += `**Total Files Processed**: ${reports.length}\n`;
+	if (excludedFiles > 0) {
+		markdown += `**Files Excluded**: ${excludedFiles} (include/exclude globs and .vaultlinterignore)\n`;
+	}
+	markdown += '\n';
 	
 	const changedFiles = reports.filter(r => r.changes.length > 0);
-	const unchangedFiles = reports.filter(r => r.changes.length === 0);
+	const erroredFiles = reports.filter(r => r.errors.length > 0);
+	const brokenLinkFiles = reports.filter(r => r.brokenLinks.length > 0);
+	const suppressedFiles = reports.filter(r => r.suppressed.length > 0);
+	const unchangedFiles = reports.filter(r => r.changes.length === 0 && r.errors.length === 0 && r.brokenLinks.length === 0 && r.suppressed.length === 0);
 	
 	markdown += `**Files with Changes**: ${changedFiles.length}\n`;
+	markdown += `**Files with Lint Errors**: ${erroredFiles.length}\n`;
+	markdown += `**Files with Broken Links**: ${brokenLinkFiles.length}\n`;
+	markdown += `**Suppressed Diagnostics**: ${suppressedFiles.reduce((sum, r) => sum + r.suppressed.length, 0)} in ${suppressedFiles.length} file(s)\n`;
 	markdown += `**Files Already Conforming**: ${unchangedFiles.length}\n\n`;
 	
 	if (changedFiles.length > 0) {
@@ -209,12 +275,68 @@ export function formatVaultReportAsMarkdown(reports: ChangeReport[]): string {
 			markdown += `**Path**: \`${report.filePath}\`\n\n`;
 			markdown += `**Changes**:\n`;
 			for (const change of report.changes) {
-				markdown += `- ${change.description}\n`;
+				const lines = describeChangeLines(change);
+				markdown += `- ${lines ? `${lines}: ` : ''}${change.description}\n`;
 			}
 			markdown += '\n';
+			if (report.hunks.length > 0) {
+				markdown += `${formatReportDiff(report)}\n\n`;
+			}
 		}
 	}
 	
+	if (erroredFiles.length > 0) {
+		markdown += `## Lint Errors\n\n`;
+		
+		for (const report of erroredFiles) {
+			markdown += `### ${report.fileName}\n\n`;
+			markdown += `**Path**: \`${report.filePath}\`\n\n`;
+			for (const error of report.errors) {
+				const lineInfo = error.lineNumber ? `line ${error.lineNumber}: ` : '';
+				markdown += `- ${lineInfo}${severityLabel(error)}${error.message}\n`;
+			}
+			markdown += '\n';
+		}
+	}
+	
+	if (brokenLinkFiles.length > 0) {
+		const total = brokenLinkFiles.reduce((sum, r) => sum + r.brokenLinks.length, 0);
+		markdown += `## Broken Links (${total})\n\n`;
+		markdown += `| Source | Line | Target | Problem |\n`;
+		markdown += `| --- | --- | --- | --- |\n`;
+		
+		for (const report of brokenLinkFiles) {
+			for (const link of report.brokenLinks) {
+				markdown += `| \`${escapeTableCell(report.filePath)}\` | ${link.lineNumber} | \`${escapeTableCell(link.target)}\` | ${escapeTableCell(describeBrokenLink(link))} |\n`;
+			}
+		}
+		markdown += '\n';
+	}
+	
+	if (suppressedFiles.length > 0) {
+		const total = suppressedFiles.reduce((sum, r) => sum + r.suppressed.length, 0);
+		markdown += `## Suppressed Diagnostics (${total})\n\n`;
+		markdown += `Silenced by \`%% vault-linter-disable %%\` directives or \`lint: false\`.\n\n`;
+		
+		const ruleCounts = new Map<string, number>();
+		for (const report of suppressedFiles) {
+			for (const item of report.suppressed) {
+				const ruleId = item.ruleId || item.type;
+				ruleCounts.set(ruleId, (ruleCounts.get(ruleId) || 0) + 1);
+			}
+		}
+		for (const [ruleId, count] of Array.from(ruleCounts.entries()).sort()) {
+			markdown += `- **${ruleId}**: ${count}\n`;
+		}
+		markdown += '\n';
+		
+		for (const report of suppressedFiles) {
+			const lines = report.suppressed.map(item => `${item.ruleId || item.type}${item.lineNumber ? ` (line ${item.lineNumber})` : ''}`);
+			markdown += `- \`${report.filePath}\`: ${lines.join(', ')}\n`;
+		}
+		markdown += '\n';
+	}
+	
 	if (unchangedFiles.length > 0 && unchangedFiles.length <= 20) {
 		markdown += `## Files Already Conforming\n\n`;
 		for (const report of unchangedFiles) {
@@ -0,0 +1,257 @@
+import { Diagnostic, LineMap } from './diagnostics';
+import { ChangeReport, formatVaultReportAsMarkdown } from './report';
+import { Severity } from './rules';
+
+/**
+ * Report formats module
+ * Machine-readable vault reports: JSON with a stable schema, SARIF 2.1.0 for code
+ * scanning tools and CSV for spreadsheets. All three list the same entries, one per
+ * diagnostic, sorted by file and position so two reports of the same vault diff cleanly.
+ */
+
+export type ReportFormat = 'markdown' | 'json' | 'sarif' | 'csv';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'json', 'sarif', 'csv'];
+
+// Version of the JSON report's schema; bumped when fields change meaning or are removed
+export const REPORT_SCHEMA_VERSION = 1;
+
+const TOOL_NAME = 'vault-linter';
+const TOOL_URI = 'https://github.com/Suicynic/Obsidian-vault-linter';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * One problem in a report. Lines and columns are 1-based; the end column is exclusive.
+ */
+export interface ReportEntry {
+	file: string;
+	rule: string;
+	severity: Severity;
+	// Kind of problem, e.g. 'heading-skipped-level'; 'fix' for changes a rule's fix makes
+	type: string;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	message: string;
+	fixable: boolean;
+	// Silenced by a suppression directive or `lint: false`
+	suppressed: boolean;
+	// Edits resolving the problem, as offsets in the file (SARIF fixes)
+	fix?: { from: number; to: number; text: string }[];
+}
+
+export interface ReportFormatOptions {
+	// Notes left out by include/exclude globs and .vaultlinterignore
+	excludedFiles?: number;
+	describeRule?: (ruleId: string) => string;
+	toolVersion?: string;
+}
+
+/**
+ * Report entries for a note's diagnostics, positioned in the linted content
+ */
+export function createReportEntries(
+	file: string,
+	content: string,
+	diagnostics: Diagnostic[],
+	suppressed: Diagnostic[] = []
+): ReportEntry[] {
+	const lines = new LineMap(content);
+	const toEntry = (diagnostic: Diagnostic, isSuppressed: boolean): ReportEntry => {
+		const endLine = lines.lineAt(diagnostic.to);
+		return {
+			file,
+			rule: diagnostic.ruleId,
+			severity: diagnostic.severity,
+			type: diagnostic.type,
+			line: diagnostic.lineNumber,
+			column: diagnostic.from - lines.lineStart(diagnostic.lineNumber) + 1,
+			endLine,
+			endColumn: diagnostic.to - lines.lineStart(endLine) + 1,
+			message: diagnostic.message,
+			fixable: !!diagnostic.fix,
+			suppressed: isSuppressed,
+			fix: diagnostic.fix
+		};
+	};
+
+	return sortEntries([
+		...diagnostics.map(diagnostic => toEntry(diagnostic, false)),
+		...suppressed.map(diagnostic => toEntry(diagnostic, true))
+	]);
+}
+
+function sortEntries(entries: ReportEntry[]): ReportEntry[] {
+	return entries.sort((a, b) =>
+		(a.file < b.file ? -1 : a.file > b.file ? 1 : 0) ||
+		a.line - b.line ||
+		a.column - b.column ||
+		(a.rule < b.rule ? -1 : a.rule > b.rule ? 1 : 0));
+}
+
+/**
+ * Entries of every note of a vault report
+ */
+export function reportEntriesFromReports(reports: ChangeReport[]): ReportEntry[] {
+	return sortEntries(([] as ReportEntry[]).concat(...reports.map(report =>
+		createReportEntries(report.filePath, report.originalContent, report.diagnostics, report.suppressedDiagnostics))));
+}
+
+/**
+ * JSON report:
+ *   { schemaVersion, tool, generated, summary: { files, problems, ... }, results: [entry, ...] }
+ * Results hold the fields of ReportEntry except the edits of fixes.
+ */
+export function formatEntriesAsJson(entries: ReportEntry[], files: number, options: ReportFormatOptions = {}): string {
+	const active = entries.filter(entry => !entry.suppressed);
+	const count = (severity: Severity) => active.filter(entry => entry.severity === severity).length;
+
+	return JSON.stringify({
+		schemaVersion: REPORT_SCHEMA_VERSION,
+		tool: { name: TOOL_NAME, version: options.toolVersion },
+		generated: new Date().toISOString(),
+		summary: {
+			files,
+			excludedFiles: options.excludedFiles || 0,
+			problems: active.length,
+			errors: count('error'),
+			warnings: count('warning'),
+			info: count('info'),
+			fixable: active.filter(entry => entry.fixable).length,
+			suppressed: entries.length - active.length
+		},
+		results: entries.map(entry => ({
+			file: entry.file,
+			rule: entry.rule,
+			severity: entry.severity,
+			type: entry.type,
+			line: entry.line,
+			column: entry.column,
+			endLine: entry.endLine,
+			endColumn: entry.endColumn,
+			message: entry.message,
+			fixable: entry.fixable,
+			suppressed: entry.suppressed
+		}))
+	}, null, 2);
+}
+
+/**
+ * Vault-relative path as a URI reference, each segment percent-encoded
+ */
+function toUri(file: string): string {
+	return file.split('/').map(encodeURIComponent).join('/');
+}
+
+function sarifLevel(severity: Severity): string {
+	return severity === 'info' ? 'note' : severity;
+}
+
+/**
+ * SARIF 2.1.0 log with one run. File URIs are relative to the vault (%SRCROOT%);
+ * fixable results carry their edits as SARIF fixes.
+ */
+export function formatEntriesAsSarif(entries: ReportEntry[], options: ReportFormatOptions = {}): string {
+	const describeRule = options.describeRule || (ruleId => ruleId);
+	const ruleIds = Array.from(new Set(entries.map(entry => entry.rule))).sort();
+
+	const results = entries.map(entry => {
+		const artifactLocation = { uri: toUri(entry.file), uriBaseId: '%SRCROOT%' };
+		const result: Record<string, unknown> = {
+			ruleId: entry.rule,
+			ruleIndex: ruleIds.indexOf(entry.rule),
+			level: sarifLevel(entry.severity),
+			message: { text: entry.message },
+			locations: [{
+				physicalLocation: {
+					artifactLocation,
+					region: {
+						startLine: entry.line,
+						startColumn: entry.column,
+						endLine: entry.endLine,
+						endColumn: entry.endColumn
+					}
+				}
+			}],
+			properties: { type: entry.type }
+		};
+		if (entry.fix) {
+			result.fixes = [{
+				description: { text: entry.message },
+				artifactChanges: [{
+					artifactLocation,
+					replacements: entry.fix.map(edit => ({
+						deletedRegion: { charOffset: edit.from, charLength: edit.to - edit.from },
+						insertedContent: { text: edit.text }
+					}))
+				}]
+			}];
+		}
+		if (entry.suppressed) {
+			result.suppressions = [{ kind: 'inSource' }];
+		}
+		return result;
+	});
+
+	return JSON.stringify({
+		$schema: SARIF_SCHEMA,
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: TOOL_NAME,
+					version: options.toolVersion,
+					informationUri: TOOL_URI,
+					rules: ruleIds.map(ruleId => ({
+						id: ruleId,
+						shortDescription: { text: describeRule(ruleId) }
+					}))
+				}
+			},
+			originalUriBaseIds: { '%SRCROOT%': { description: { text: 'The vault folder' } } },
+			results
+		}]
+	}, null, 2);
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string | number | boolean): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row and one row per entry, lines ending in CRLF (RFC 4180)
+ */
+export function formatEntriesAsCsv(entries: ReportEntry[]): string {
+	const header = ['file', 'rule', 'severity', 'type', 'line', 'column', 'endLine', 'endColumn', 'message', 'fixable', 'suppressed'];
+	const rows = entries.map(entry => [
+		entry.file, entry.rule, entry.severity, entry.type, entry.line, entry.column,
+		entry.endLine, entry.endColumn, entry.message, entry.fixable, entry.suppressed
+	].map(csvField).join(','));
+	return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Format a vault report in the given format
+ */
+export function formatVaultReport(reports: ChangeReport[], format: ReportFormat, options: ReportFormatOptions = {}): string {
+	if (format === 'markdown') {
+		return formatVaultReportAsMarkdown(reports, options.excludedFiles);
+	}
+	const entries = reportEntriesFromReports(reports);
+	if (format === 'json') {
+		return formatEntriesAsJson(entries, reports.length, options);
+	}
+	return format === 'sarif' ? formatEntriesAsSarif(entries, options) : formatEntriesAsCsv(entries);
+}
+
+/**
+ * File extension for reports saved in a format
+ */
+export function reportFileExtension(format: ReportFormat): string {
+	return format === 'markdown' ? 'md' : format;
+}
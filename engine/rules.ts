@@ -0,0 +1,79 @@
+import { VaultLinterSettings } from '../settings';
+import { VaultLinkIndex } from './linkIndex';
+import { LintError } from './report';
+
+/**
+ * Rule engine
+ * Rules are registered under stable IDs and run by the pipeline in registration order
+ */
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * Per-rule settings; rules without an entry are enabled with their default severity
+ */
+export interface RuleSetting {
+	enabled: boolean;
+	severity?: Severity;
+}
+
+/**
+ * Everything a rule may need besides the note content
+ */
+export interface RuleContext {
+	filePath: string;
+	settings: VaultLinterSettings;
+	linkIndex: VaultLinkIndex | null;
+}
+
+export interface Rule {
+	// Stable ID used in settings and reports, e.g. "headings"
+	id: string;
+	description: string;
+	defaultSeverity: Severity;
+	// Problems left in the content once fix() has run with the current settings
+	check(content: string, context: RuleContext): LintError[];
+	// Rewrite the content; must be idempotent. The pipeline turns each change into a diagnostic.
+	fix?(content: string, context: RuleContext): string;
+}
+
+/**
+ * Ordered collection of rules keyed by ID
+ */
+export class RuleRegistry {
+	private rules = new Map<string, Rule>();
+
+	/**
+	 * Add a rule after the already registered ones
+	 */
+	register(rule: Rule): void {
+		if (this.rules.has(rule.id)) {
+			throw new Error(`Rule "${rule.id}" is already registered`);
+		}
+		this.rules.set(rule.id, rule);
+	}
+
+	unregister(id: string): void {
+		this.rules.delete(id);
+	}
+
+	get(id: string): Rule | undefined {
+		return this.rules.get(id);
+	}
+
+	/**
+	 * All rules in pipeline order
+	 */
+	getAll(): Rule[] {
+		return Array.from(this.rules.values());
+	}
+}
+
+export function isRuleEnabled(settings: VaultLinterSettings, rule: Rule): boolean {
+	const ruleSetting = settings.rules[rule.id];
+	return ruleSetting ? ruleSetting.enabled : true;
+}
+
+export function getRuleSeverity(settings: VaultLinterSettings, rule: Rule): Severity {
+	return settings.rules[rule.id]?.severity || rule.defaultSeverity;
+}
@@ -3,66 +3,332 @@
  * Used by other modules to avoid modifying code blocks and other protected content
  */
 
+/**
+ * Kinds of segment a note is split into by scanSegments.
+ * Only 'text' is ordinary prose; every other type is protected content
+ * that a rule may only touch if it explicitly asks for it.
+ */
+export type SegmentType =
+	| 'text'
+	| 'frontmatter'
+	| 'code-block'
+	| 'indented-code'
+	| 'math-block'
+	| 'inline-code'
+	| 'inline-math'
+	| 'html-comment'
+	| 'obsidian-comment'
+	| 'url'
+	| 'embed'
+	| 'wikilink'
+	| 'callout';
+
 /**
  * Represents a range in text content
  */
 export interface TextRange {
 	start: number;
 	end: number;
-	type: 'code-block' | 'inline-code' | 'heading' | 'wikilink' | 'tag';
+	type: SegmentType | 'heading' | 'tag';
 	content: string;
 }
 
 /**
- * Detect fenced code blocks (```...```) in content
+ * A contiguous piece of a note. The segments returned by scanSegments
+ * cover the whole note without gaps or overlaps.
  */
-export function detectCodeBlocks(content: string): TextRange[] {
-	const ranges: TextRange[] = [];
-	
-	// Detect fenced code blocks (```...```)
-	const fencedRegex = /```[\s\S]*?```/g;
+export interface Segment extends TextRange {
+	type: SegmentType;
+}
+
+interface Line {
+	start: number;
+	end: number;
+	text: string;
+}
+
+const FRONTMATTER_REGEX = /^(\s*)(---[ \t]*\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*)(?=\r?\n|$)/;
+const FENCE_OPEN_REGEX = /^([ \t]*(?:>[ \t]?)*[ \t]*)(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_REGEX = /^[ \t]*(?:[-*+]|\d+[.)])(?:[ \t]|$)/;
+const CALLOUT_REGEX = /^[ \t]*(?:>[ \t]*)+\[![^\]\n]+\][+-]?/;
+
+/**
+ * Inline constructs, in priority order. Each alternative has its own capture group
+ * so the scanner can tell which one matched.
+ */
+const INLINE_REGEX = new RegExp([
+	// 1: backslash escape (kept as text, but stops the escaped char opening a construct)
+	'(\\\\[\\s\\S])',
+	// 2: HTML comment
+	'(<!--[\\s\\S]*?(?:-->|$))',
+	// 3: Obsidian comment
+	'(%%[\\s\\S]*?(?:%%|$))',
+	// 4, 5: inline code with a matching backtick run, never crossing a blank line
+	'((?<!`)(`+)(?!`)(?:(?!\\r?\\n[ \\t]*\\r?\\n)[\\s\\S])*?[^`]\\5(?!`))',
+	// 6: display math on a single line or inside a paragraph
+	'(\\$\\$[\\s\\S]*?\\$\\$)',
+	// 7: inline math ($5 and $10 is not math)
+	'(\\$(?!\\s)[^$\\n]*?[^\\s\\\\$]\\$(?!\\d))',
+	// 8: embed
+	'(!\\[\\[[^\\]\\n]*\\]\\])',
+	// 9: wikilink
+	'(\\[\\[[^\\]\\n]*\\]\\])',
+	// 10, 11: Markdown link or image destination
+	'(\\](\\((?:<[^>\\n]*>|[^()\\s]*(?:\\([^()\\s]*\\)[^()\\s]*)*)(?:[ \\t]+(?:"[^"\\n]*"|\'[^\'\\n]*\'))?\\)))',
+	// 12: autolink
+	'(<[a-zA-Z][a-zA-Z0-9+.\\-]*:[^\\s<>]*>)',
+	// 13: bare URL
+	'(\\b[a-zA-Z][a-zA-Z0-9+.\\-]*:\\/\\/[^\\s<>]*[^\\s<>.,;:!?\'")\\]*_])'
+].join('|'), 'g');
+
+/**
+ * Split content into lines, keeping offsets into the original string
+ */
+function splitLines(content: string): Line[] {
+	const lines: Line[] = [];
+	let start = 0;
+	while (start <= content.length) {
+		const newline = content.indexOf('\n', start);
+		const end = newline === -1 ? content.length : newline;
+		const textEnd = end > start && content[end - 1] === '\r' ? end - 1 : end;
+		lines.push({ start, end: textEnd, text: content.slice(start, textEnd) });
+		if (newline === -1) {
+			break;
+		}
+		start = newline + 1;
+	}
+	return lines;
+}
+
+function isBlank(line: Line): boolean {
+	return line.text.trim() === '';
+}
+
+/**
+ * Append a segment, merging adjacent text segments
+ */
+function pushSegment(segments: Segment[], content: string, type: SegmentType, start: number, end: number): void {
+	if (end <= start) {
+		return;
+	}
+	const last = segments[segments.length - 1];
+	if (type === 'text' && last && last.type === 'text' && last.end === start) {
+		last.end = end;
+		last.content = content.slice(last.start, end);
+		return;
+	}
+	segments.push({ type, start, end, content: content.slice(start, end) });
+}
+
+/**
+ * Split a run of block-level prose into text and inline segments
+ */
+function scanInline(content: string, from: number, to: number, segments: Segment[]): void {
+	const run = content.slice(from, to);
+	const regex = new RegExp(INLINE_REGEX.source, 'g');
+	let cursor = 0;
 	let match;
-	while ((match = fencedRegex.exec(content)) !== null) {
-		ranges.push({
-			start: match.index,
-			end: match.index + match[0].length,
-			type: 'code-block',
-			content: match[0]
-		});
+
+	while ((match = regex.exec(run)) !== null) {
+		if (match[1] !== undefined) {
+			continue;
+		}
+
+		let type: SegmentType;
+		let start = match.index;
+		if (match[2] !== undefined) {
+			type = 'html-comment';
+		} else if (match[3] !== undefined) {
+			type = 'obsidian-comment';
+		} else if (match[4] !== undefined) {
+			type = 'inline-code';
+		} else if (match[6] !== undefined) {
+			type = 'math-block';
+		} else if (match[7] !== undefined) {
+			type = 'inline-math';
+		} else if (match[8] !== undefined) {
+			type = 'embed';
+		} else if (match[9] !== undefined) {
+			type = 'wikilink';
+		} else {
+			// The closing bracket of a Markdown link belongs to its text
+			type = 'url';
+			if (match[10] !== undefined) {
+				start += 1;
+			}
+		}
+
+		pushSegment(segments, content, 'text', from + cursor, from + start);
+		pushSegment(segments, content, type, from + start, from + match.index + match[0].length);
+		cursor = match.index + match[0].length;
 	}
-	
-	return ranges;
+
+	pushSegment(segments, content, 'text', from + cursor, to);
+}
+
+/**
+ * Find the closing line of a fenced code block opened at lines[openIndex]
+ */
+function findFenceClose(lines: Line[], openIndex: number, fence: string): number {
+	const closeRegex = new RegExp(`^[ \\t]*(?:>[ \\t]?)*[ \\t]*${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+	for (let j = openIndex + 1; j < lines.length; j++) {
+		if (closeRegex.test(lines[j].text)) {
+			return j;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Tokenize a note into a single structured segment map.
+ *
+ * Block-level structures (frontmatter, fenced and indented code, math blocks,
+ * callout markers) are found line by line; the prose between them is then split
+ * into inline code, inline math, comments, URLs, embeds and wikilinks.
+ * Everything left over is 'text'.
+ */
+export function scanSegments(content: string): Segment[] {
+	const segments: Segment[] = [];
+	const lines = splitLines(content);
+	let textStart = 0;
+	let i = 0;
+
+	const flushText = (end: number) => {
+		scanInline(content, textStart, end, segments);
+	};
+	const emitBlock = (type: SegmentType, start: number, end: number) => {
+		flushText(start);
+		pushSegment(segments, content, type, start, end);
+		textStart = end;
+	};
+
+	const frontmatterMatch = content.match(FRONTMATTER_REGEX);
+	if (frontmatterMatch) {
+		const start = frontmatterMatch[1].length;
+		const end = start + frontmatterMatch[2].length;
+		emitBlock('frontmatter', start, end);
+		while (i < lines.length && lines[i].start < end) {
+			i++;
+		}
+	}
+
+	let prevBlank = true;
+	let inList = false;
+
+	while (i < lines.length) {
+		const line = lines[i];
+
+		if (isBlank(line)) {
+			prevBlank = true;
+			i++;
+			continue;
+		}
+
+		// Fenced code block (``` or ~~~), possibly inside a blockquote or list
+		const fenceMatch = line.text.match(FENCE_OPEN_REGEX);
+		if (fenceMatch && !(fenceMatch[2][0] === '`' && fenceMatch[3].includes('`'))) {
+			const close = findFenceClose(lines, i, fenceMatch[2]);
+			const end = close === -1 ? content.length : lines[close].end;
+			emitBlock('code-block', line.start, end);
+			i = close === -1 ? lines.length : close + 1;
+			// A closed block ends like a blank line: indented code may follow directly
+			prevBlank = true;
+			continue;
+		}
+
+		// Display math block ($$ ... $$)
+		const trimmed = line.text.trim();
+		if (trimmed.startsWith('$$')) {
+			let close = trimmed.length > 2 && trimmed.slice(2).includes('$$') ? i : -1;
+			for (let j = i + 1; close === -1 && j < lines.length; j++) {
+				if (lines[j].text.includes('$$')) {
+					close = j;
+				}
+			}
+			const end = close === -1 ? content.length : lines[close].end;
+			emitBlock('math-block', line.start, end);
+			i = close === -1 ? lines.length : close + 1;
+			prevBlank = true;
+			continue;
+		}
+
+		// Indented code block: needs a preceding blank line and cannot continue a list
+		if (prevBlank && !inList && /^(?: {4}|\t)/.test(line.text)) {
+			let last = i;
+			for (let j = i + 1; j < lines.length; j++) {
+				if (isBlank(lines[j])) {
+					continue;
+				}
+				if (!/^(?: {4}|\t)/.test(lines[j].text)) {
+					break;
+				}
+				last = j;
+			}
+			emitBlock('indented-code', line.start, lines[last].end);
+			i = last + 1;
+			prevBlank = false;
+			continue;
+		}
+
+		// Callout marker (> [!note]); the callout title and body stay text
+		const calloutMatch = line.text.match(CALLOUT_REGEX);
+		if (calloutMatch) {
+			emitBlock('callout', line.start, line.start + calloutMatch[0].length);
+		}
+
+		if (LIST_ITEM_REGEX.test(line.text)) {
+			inList = true;
+		} else if (prevBlank && !/^[ \t]/.test(line.text)) {
+			inList = false;
+		}
+		prevBlank = false;
+		i++;
+	}
+
+	flushText(content.length);
+	return segments;
+}
+
+/**
+ * Rewrite only the segments of the given types, leaving every other segment untouched
+ */
+export function transformSegments(
+	content: string,
+	types: SegmentType[],
+	transform: (text: string, segment: Segment) => string
+): string {
+	return scanSegments(content)
+		.map(segment => types.includes(segment.type) ? transform(segment.content, segment) : segment.content)
+		.join('');
+}
+
+/**
+ * Detect fenced and indented code blocks in content
+ */
+export function detectCodeBlocks(content: string): TextRange[] {
+	return scanSegments(content).filter(segment => segment.type === 'code-block' || segment.type === 'indented-code');
 }
 
 /**
  * Detect inline code (`...`) in content
  */
 export function detectInlineCode(content: string): TextRange[] {
-	const ranges: TextRange[] = [];
-	const inlineRegex = /`[^`]+`/g;
-	let match;
-	
-	while ((match = inlineRegex.exec(content)) !== null) {
-		ranges.push({
-			start: match.index,
-			end: match.index + match[0].length,
-			type: 'inline-code',
-			content: match[0]
-		});
-	}
-	
-	return ranges;
+	return scanSegments(content).filter(segment => segment.type === 'inline-code');
 }
 
 /**
- * Detect headings (# ... ######) in content
+ * Detect headings (# ... ######) in content, ignoring lines inside protected segments
  */
 export function detectHeadings(content: string): TextRange[] {
 	const ranges: TextRange[] = [];
+	const protectedRanges = getProtectedRanges(content);
 	const headingRegex = /^(#{1,6})\s+(.+)$/gm;
 	let match;
-	
+
 	while ((match = headingRegex.exec(content)) !== null) {
+		if (isInRange(match.index, protectedRanges)) {
+			continue;
+		}
 		ranges.push({
 			start: match.index,
 			end: match.index + match[0].length,
@@ -70,7 +336,7 @@ export function detectHeadings(content: string): TextRange[] {
 			content: match[0]
 		});
 	}
-	
+
 	return ranges;
 }
 
@@ -78,42 +344,63 @@ export function detectHeadings(content: string): TextRange[] {
  * Detect wikilinks ([[...]]) in content
  */
 export function detectWikilinks(content: string): TextRange[] {
-	const ranges: TextRange[] = [];
-	const wikilinkRegex = /\[\[([^\]]+)\]\]/g;
-	let match;
-	
-	while ((match = wikilinkRegex.exec(content)) !== null) {
-		ranges.push({
-			start: match.index,
-			end: match.index + match[0].length,
-			type: 'wikilink',
-			content: match[0]
-		});
-	}
-	
-	return ranges;
+	return scanSegments(content).filter(segment => segment.type === 'wikilink');
 }
 
 /**
- * Detect inline tags (#tag) in content
+ * Detect embeds (![[...]]) in content
+ */
+export function detectEmbeds(content: string): TextRange[] {
+	return scanSegments(content).filter(segment => segment.type === 'embed');
+}
+
+/**
+ * Inline tag: a # not preceded by a letter, digit, _, #, &, / or \ (so `C#`, `##`, `&#39;`
+ * and paths are not tags) and containing at least one non-digit, so `#1` issue numbers
+ * are not tags either. Letters of any script count (`#café`, `#日本語`).
+ */
+const TAG_REGEX = /(?<![\p{L}\p{M}\p{N}_#&\/\\])#([\p{L}\p{M}\p{N}_\-\/]*[\p{L}\p{M}_\-\/][\p{L}\p{M}\p{N}_\-\/]*)/gu;
+
+/**
+ * Detect inline tags (#tag) in text segments
  */
 export function detectTags(content: string): TextRange[] {
 	const ranges: TextRange[] = [];
-	const tagRegex = /#([a-zA-Z0-9_\-\/]+)/g;
-	let match;
-	
-	while ((match = tagRegex.exec(content)) !== null) {
-		ranges.push({
-			start: match.index,
-			end: match.index + match[0].length,
-			type: 'tag',
-			content: match[0]
-		});
+
+	for (const segment of scanSegments(content)) {
+		if (segment.type !== 'text') {
+			continue;
+		}
+		// Match against the whole content so the character before a segment counts too
+		const tagRegex = new RegExp(TAG_REGEX.source, 'gu');
+		tagRegex.lastIndex = segment.start;
+		let match;
+		while ((match = tagRegex.exec(content)) !== null && match.index + match[0].length <= segment.end) {
+			ranges.push({
+				start: match.index,
+				end: match.index + match[0].length,
+				type: 'tag',
+				content: match[0]
+			});
+		}
 	}
-	
+
 	return ranges;
 }
 
+/**
+ * 1-based line number of an offset in content
+ */
+export function lineNumberAt(content: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset && i < content.length; i++) {
+		if (content.charCodeAt(i) === 10) {
+			line++;
+		}
+	}
+	return line;
+}
+
 /**
  * Check if a position is inside any of the given ranges
  */
@@ -122,11 +409,8 @@ export function isInRange(position: number, ranges: TextRange[]): boolean {
 }
 
 /**
- * Get all protected ranges (code blocks and inline code) where content should not be modified
+ * Get all protected ranges (every non-text segment) where content should not be modified
  */
 export function getProtectedRanges(content: string): TextRange[] {
-	return [
-		...detectCodeBlocks(content),
-		...detectInlineCode(content)
-	].sort((a, b) => a.start - b.start);
+	return scanSegments(content).filter(segment => segment.type !== 'text');
 }
@@ -0,0 +1,56 @@
+import { VaultLinterSettings } from '../settings';
+import { matchesAnyGlob } from './glob';
+
+/**
+ * Scope module
+ * Decides which notes the linter processes (include/exclude globs and .vaultlinterignore)
+ * and which settings apply to a note (per-folder overrides)
+ */
+
+/**
+ * Read a .vaultlinterignore file: one glob per line, blank lines and # comments ignored
+ */
+export function parseIgnoreFile(content: string): string[] {
+	return content
+		.split(/\r?\n/)
+		.map(line => line.trim())
+		.filter(line => line !== '' && !line.startsWith('#'));
+}
+
+/**
+ * Whether a note is processed. A note must match an include glob (when any are set)
+ * and must not match an exclude glob, an ignore file pattern or an always-excluded folder.
+ */
+export function isInScope(
+	path: string,
+	settings: VaultLinterSettings,
+	ignorePatterns: string[] = [],
+	alwaysExcluded: string[] = []
+): boolean {
+	const include = settings.includeGlobs.filter(pattern => pattern.trim() !== '');
+	if (include.length > 0 && !matchesAnyGlob(path, include)) {
+		return false;
+	}
+	return !matchesAnyGlob(path, [...settings.excludeGlobs, ...ignorePatterns, ...alwaysExcluded]);
+}
+
+/**
+ * Settings for one note: every folder override whose globs match is applied in order,
+ * so later overrides win. Per-rule settings are merged rule by rule.
+ */
+export function resolveSettings(settings: VaultLinterSettings, path: string): VaultLinterSettings {
+	let resolved = settings;
+
+	for (const override of settings.folderOverrides) {
+		if (!override.settings || !matchesAnyGlob(path, override.folders || [])) {
+			continue;
+		}
+		resolved = {
+			...resolved,
+			...override.settings,
+			rules: { ...resolved.rules, ...override.settings.rules }
+		};
+	}
+
+	return resolved;
+}
@@ -0,0 +1,101 @@
+/**
+ * Snapshot module
+ * Records what a batch normalization run wrote so the run can be undone safely
+ */
+
+export interface SnapshotFile {
+	path: string;
+	originalContent: string;
+	originalHash: string;
+	// Hash of the content the linter wrote; the file is only restored while it still matches
+	writtenHash: string;
+}
+
+export interface NormalizationRun {
+	id: string;
+	timestamp: string;
+	// Command that produced the run, e.g. "Normalize: Entire vault"
+	label: string;
+	files: SnapshotFile[];
+}
+
+/**
+ * A run without file contents, as listed in the snapshot index
+ */
+export interface RunSummary {
+	id: string;
+	timestamp: string;
+	label: string;
+	fileCount: number;
+}
+
+export interface UndoPlan {
+	restore: SnapshotFile[];
+	skipped: { path: string; reason: 'modified' | 'missing' }[];
+}
+
+/**
+ * 53-bit string hash (cyrb53), hex encoded. Used to detect edits, not for security.
+ */
+export function hashContent(content: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < content.length; i++) {
+		const ch = content.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Start recording a new run
+ */
+export function createRun(label: string, date: Date = new Date()): NormalizationRun {
+	const timestamp = date.toISOString();
+	return {
+		id: timestamp.replace(/[:.]/g, '-'),
+		timestamp,
+		label,
+		files: []
+	};
+}
+
+/**
+ * Record a file the run is about to overwrite
+ */
+export function recordFile(run: NormalizationRun, path: string, originalContent: string, writtenContent: string) {
+	run.files.push({
+		path,
+		originalContent,
+		originalHash: hashContent(originalContent),
+		writtenHash: hashContent(writtenContent)
+	});
+}
+
+export function summarizeRun(run: NormalizationRun): RunSummary {
+	return { id: run.id, timestamp: run.timestamp, label: run.label, fileCount: run.files.length };
+}
+
+/**
+ * Decide which files of a run can be restored. A file is only restored while its
+ * current content is exactly what the run wrote; edited or removed files are skipped.
+ */
+export function planUndo(run: NormalizationRun, currentContents: Map<string, string | null>): UndoPlan {
+	const plan: UndoPlan = { restore: [], skipped: [] };
+
+	for (const file of run.files) {
+		const current = currentContents.get(file.path);
+		if (current === undefined || current === null) {
+			plan.skipped.push({ path: file.path, reason: 'missing' });
+		} else if (hashContent(current) !== file.writtenHash) {
+			plan.skipped.push({ path: file.path, reason: 'modified' });
+		} else {
+			plan.restore.push(file);
+		}
+	}
+
+	return plan;
+}
@@ -0,0 +1,107 @@
+import { lineNumberAt, scanSegments } from './scan';
+import { getEntryValue, parseFrontmatterYaml } from './yaml';
+
+/**
+ * Suppression module
+ * Reads inline directives in Obsidian comments and the frontmatter `lint: false` key:
+ *
+ *   %% vault-linter-disable [rule ...] %%            until a matching enable or the end of the note
+ *   %% vault-linter-enable [rule ...] %%
+ *   %% vault-linter-disable-line [rule ...] %%       the line of the comment
+ *   %% vault-linter-disable-next-line [rule ...] %%  the line after the comment
+ *
+ * Without rule IDs a directive applies to every rule. "custom" matches every custom/... rule.
+ */
+
+interface SuppressedRange {
+	// null means every rule
+	rules: string[] | null;
+	startLine: number;
+	endLine: number;
+}
+
+export interface Suppressions {
+	// The whole note is excluded with `lint: false`
+	fileDisabled: boolean;
+	ranges: SuppressedRange[];
+}
+
+const DIRECTIVE_REGEX = /^%%\s*vault-linter-(disable-next-line|disable-line|disable|enable)\b([^%]*)%%$/;
+
+function ruleMatches(rules: string[] | null, ruleId: string): boolean {
+	return rules === null || rules.some(rule => rule === ruleId || ruleId.startsWith(rule + '/'));
+}
+
+/**
+ * Whether the frontmatter sets `lint: false`
+ */
+function isLintDisabled(content: string): boolean {
+	const frontmatter = scanSegments(content).find(segment => segment.type === 'frontmatter');
+	if (!frontmatter) {
+		return false;
+	}
+	const lines = frontmatter.content.split(/\r?\n/);
+	const entry = parseFrontmatterYaml(lines.slice(1, -1).join('\n')).entries.find(e => e.key === 'lint');
+	const value = entry ? getEntryValue(entry) : null;
+	return typeof value === 'string' && value.toLowerCase() === 'false';
+}
+
+/**
+ * Collect the suppression directives of a note
+ */
+export function parseSuppressions(content: string): Suppressions {
+	const ranges: SuppressedRange[] = [];
+	// Open disable directives, closed by a matching enable
+	const open: { rules: string[] | null; startLine: number }[] = [];
+	const lastLine = content.split('\n').length;
+
+	for (const segment of scanSegments(content)) {
+		if (segment.type !== 'obsidian-comment') {
+			continue;
+		}
+		const match = segment.content.trim().match(DIRECTIVE_REGEX);
+		if (!match) {
+			continue;
+		}
+
+		const ids = match[2].split(/[\s,]+/).filter(id => id !== '');
+		const rules = ids.length > 0 ? ids : null;
+		const startLine = lineNumberAt(content, segment.start);
+		const endLine = lineNumberAt(content, segment.end);
+
+		switch (match[1]) {
+			case 'disable':
+				open.push({ rules, startLine });
+				break;
+			case 'enable':
+				for (let i = open.length - 1; i >= 0; i--) {
+					// A bare enable closes everything; otherwise only disables naming the same rules
+					if (rules === null || open[i].rules !== null && open[i].rules!.every(rule => rules.includes(rule))) {
+						ranges.push({ rules: open[i].rules, startLine: open[i].startLine, endLine });
+						open.splice(i, 1);
+					}
+				}
+				break;
+			case 'disable-line':
+				ranges.push({ rules, startLine, endLine });
+				break;
+			case 'disable-next-line':
+				ranges.push({ rules, startLine: endLine + 1, endLine: endLine + 1 });
+				break;
+		}
+	}
+
+	for (const directive of open) {
+		ranges.push({ rules: directive.rules, startLine: directive.startLine, endLine: lastLine });
+	}
+
+	return { fileDisabled: isLintDisabled(content), ranges };
+}
+
+/**
+ * Whether a rule is suppressed on a line (1-based)
+ */
+export function isSuppressed(suppressions: Suppressions, ruleId: string, lineNumber: number): boolean {
+	return suppressions.fileDisabled || suppressions.ranges.some(range =>
+		lineNumber >= range.startLine && lineNumber <= range.endLine && ruleMatches(range.rules, ruleId));
+}
@@ -0,0 +1,141 @@
+/**
+ * Tag inventory module
+ * Counts every tag spelling used in the vault and groups near-duplicates
+ * (`#JS` and `#js`, `#project` and `#projects`, `#to-do` and `#todo`) with the notes using them
+ */
+
+export interface TagUsage {
+	// The tag as written, without #
+	tag: string;
+	// Occurrences in all notes
+	count: number;
+	// Notes using the tag, sorted
+	notes: string[];
+}
+
+export interface TagInventory {
+	notes: number;
+	// Every spelling, most used first
+	tags: TagUsage[];
+	// Groups of spellings that probably mean the same tag
+	nearDuplicates: TagUsage[][];
+}
+
+// Notes listed per tag in the near-duplicates section
+const MAX_LISTED_NOTES = 10;
+// Shortest comparison key for which one typo counts as a near-duplicate
+const MIN_TYPO_LENGTH = 5;
+
+/**
+ * Comparison key: case, hyphens, underscores and plural `s` of each level ignored
+ */
+function comparisonKey(tag: string): string {
+	return tag
+		.toLowerCase()
+		.split('/')
+		.map(level => level.replace(/[-_]/g, '').replace(/(.{3,})s$/, '$1'))
+		.join('/');
+}
+
+/**
+ * Whether two strings differ by at most one inserted, removed or replaced character
+ */
+function withinOneEdit(a: string, b: string): boolean {
+	if (Math.abs(a.length - b.length) > 1) {
+		return false;
+	}
+	const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+	let i = 0;
+	while (i < shorter.length && shorter[i] === longer[i]) {
+		i++;
+	}
+	const skip = shorter.length === longer.length ? 1 : 0;
+	return shorter.slice(i + skip) === longer.slice(i + 1);
+}
+
+/**
+ * Count tags per spelling and group near-duplicates
+ */
+export function buildTagInventory(notes: { path: string; tags: string[] }[]): TagInventory {
+	const usages = new Map<string, { count: number; notes: Set<string> }>();
+	for (const note of notes) {
+		for (const tag of note.tags) {
+			const usage = usages.get(tag) || { count: 0, notes: new Set<string>() };
+			usage.count++;
+			usage.notes.add(note.path);
+			usages.set(tag, usage);
+		}
+	}
+
+	const tags: TagUsage[] = Array.from(usages.entries())
+		.map(([tag, usage]) => ({ tag, count: usage.count, notes: Array.from(usage.notes).sort() }))
+		.sort((a, b) => b.count - a.count || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+
+	// Union spellings with the same key, or keys one typo apart
+	const parent = tags.map((tag, index) => index);
+	const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+	const keys = tags.map(usage => comparisonKey(usage.tag));
+	for (let i = 0; i < tags.length; i++) {
+		for (let j = i + 1; j < tags.length; j++) {
+			if (keys[i] === keys[j] || (Math.min(keys[i].length, keys[j].length) >= MIN_TYPO_LENGTH && withinOneEdit(keys[i], keys[j]))) {
+				parent[find(j)] = find(i);
+			}
+		}
+	}
+
+	const groups = new Map<number, TagUsage[]>();
+	tags.forEach((usage, index) => {
+		const root = find(index);
+		groups.set(root, [...(groups.get(root) || []), usage]);
+	});
+
+	return {
+		notes: notes.length,
+		tags,
+		nearDuplicates: Array.from(groups.values()).filter(group => group.length > 1)
+	};
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format the inventory as a Markdown note. With a taxonomy, tags it would rewrite show
+ * what they become.
+ */
+export function formatTagInventoryAsMarkdown(inventory: TagInventory, canonicalTag: (tag: string) => string = tag => tag): string {
+	let markdown = `# Tag Inventory\n\n`;
+	markdown += `**Generated**: ${new Date().toISOString()}\n`;
+	markdown += `**Notes Scanned**: ${inventory.notes}\n`;
+	markdown += `**Distinct Tags**: ${inventory.tags.length}\n`;
+	markdown += `**Near-Duplicate Groups**: ${inventory.nearDuplicates.length}\n\n`;
+
+	if (inventory.nearDuplicates.length > 0) {
+		markdown += `## Near Duplicates\n\n`;
+		for (const group of inventory.nearDuplicates) {
+			// Backticks keep Obsidian from indexing the spellings as tags of this note
+			markdown += `### ${group.map(usage => `\`#${usage.tag}\``).join(', ')}\n\n`;
+			for (const usage of group) {
+				const listed = usage.notes.slice(0, MAX_LISTED_NOTES).map(note => `[[${note.replace(/\.md$/, '')}]]`).join(', ');
+				const more = usage.notes.length > MAX_LISTED_NOTES ? ` and ${usage.notes.length - MAX_LISTED_NOTES} more` : '';
+				markdown += `- \`#${usage.tag}\` (${usage.count} use${usage.count === 1 ? '' : 's'}): ${listed}${more}\n`;
+			}
+			markdown += '\n';
+		}
+	}
+
+	if (inventory.tags.length > 0) {
+		markdown += `## All Tags\n\n`;
+		markdown += `| Tag | Uses | Notes | Becomes |\n`;
+		markdown += `| --- | --- | --- | --- |\n`;
+		for (const usage of inventory.tags) {
+			const canonical = canonicalTag(usage.tag);
+			const becomes = canonical !== usage.tag ? `\`#${escapeTableCell(canonical)}\`` : '';
+			markdown += `| \`#${escapeTableCell(usage.tag)}\` | ${usage.count} | ${usage.notes.length} | ${becomes} |\n`;
+		}
+		markdown += '\n';
+	}
+
+	return markdown;
+}
@@ -1,9 +1,317 @@
 import { VaultLinterSettings } from '../settings';
+import { LintError } from './report';
+import { detectTags, lineNumberAt, scanSegments, Segment } from './scan';
+import { isSuppressed, Suppressions } from './suppress';
+import { parseFrontmatterYaml, serializeFrontmatterYaml, stripComment } from './yaml';
 
 /**
  * Tag rules module
- * Enforces consistent tag formatting and merging
+ * Enforces consistent tag formatting and the tag taxonomy: synonyms merged into their
+ * canonical tag, renamed hierarchies and the list of allowed tags
  */
+
+// Frontmatter keys holding tags
+const TAG_KEYS = ['tags', 'tag'];
+
+// A tag in a frontmatter value, optionally quoted and prefixed with #
+const FRONTMATTER_TAG_REGEX = /(["']?)(#?)([^\s,"'[\]#][^\s,"'[\]]*)\1/g;
+
+/**
+ * A tag and the 1-based line it appears on
+ */
+export interface TagOccurrence {
+	tag: string;
+	lineNumber: number;
+}
+
+/**
+ * Tag without a leading #, lowercased for comparison (Obsidian treats tags case-insensitively)
+ */
+function tagKey(tag: string): string {
+	return tag.replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Apply a mapping to every tag of a frontmatter line's value, keeping quotes and #
+ */
+function mapValueTags(value: string, map: (tag: string) => string): string {
+	return value.replace(FRONTMATTER_TAG_REGEX, (match, quote: string, hash: string, tag: string) =>
+		quote + hash + map(tag) + quote);
+}
+
+/**
+ * Apply a mapping to the tags of one line of a tags entry: the inline value after the key
+ * or a list item, never a comment
+ */
+function mapLineTags(line: string, isKeyLine: boolean, map: (tag: string) => string): string {
+	const valueStart = isKeyLine ? line.indexOf(':') + 1 : (line.match(/^[ \t]*-(?=[ \t]|$)/) || [''])[0].length;
+	if (valueStart === 0) {
+		return line;
+	}
+	const rest = line.slice(valueStart);
+	const value = stripComment(rest);
+	if (/^\s*[|>]/.test(value)) {
+		return line;
+	}
+	return line.slice(0, valueStart) + mapValueTags(value, map) + rest.slice(value.length);
+}
+
+/**
+ * Words of one tag level: split on hyphens, underscores and case changes, so `alpha-beta`,
+ * `alpha_beta`, `alphaBeta` and `AlphaBeta` all give `alpha`, `beta`
+ */
+function splitWords(level: string): string[] {
+	return level
+		.replace(/([^\p{Lu} _\-])(\p{Lu})/gu, '$1 $2')
+		.replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+		.split(/[ _\-]+/)
+		.filter(word => word !== '');
+}
+
+/**
+ * Uppercase the first letter, keeping the rest as written so acronyms (`HTTP`) survive
+ */
+function capitalize(word: string): string {
+	const [first, ...rest] = Array.from(word);
+	return first.toUpperCase() + rest.join('');
+}
+
+/**
+ * Join the words of each level of a nested tag, keeping the `/` hierarchy. A level
+ * without words (only hyphens or underscores) is kept as written.
+ */
+function formatLevels(tag: string, join: (words: string[]) => string): string {
+	return tag
+		.split('/')
+		.map(level => {
+			const words = splitWords(level);
+			return words.length > 0 ? join(words) : level;
+		})
+		.join('/');
+}
+
+/**
+ * Find the frontmatter segment of a note, if it has a closed one
+ */
+function findFrontmatter(content: string): Segment | null {
+	return scanSegments(content).find(segment => segment.type === 'frontmatter') || null;
+}
+
+/**
+ * Tags listed in the frontmatter `tags` or `tag` key, as a list, a flow array or a
+ * comma- or space-separated string
+ */
+export function readFrontmatterTags(content: string): TagOccurrence[] {
+	const segment = findFrontmatter(content);
+	if (!segment) {
+		return [];
+	}
+
+	const occurrences: TagOccurrence[] = [];
+	const firstBodyLine = lineNumberAt(content, segment.start) + 1;
+	const body = segment.content.split(/\r?\n/).slice(1, -1).join('\n');
+	for (const entry of parseFrontmatterYaml(body).entries) {
+		if (!TAG_KEYS.includes(entry.key)) {
+			continue;
+		}
+		entry.lines.forEach((line, index) => {
+			mapLineTags(line, index === 0, tag => {
+				occurrences.push({ tag, lineNumber: firstBodyLine + entry.line + index });
+				return tag;
+			});
+		});
+	}
+	return occurrences;
+}
+
+/**
+ * A frontmatter tag with the quotes and # it is written with
+ */
+interface TagItem {
+	tag: string;
+	quote: string;
+	hash: string;
+}
+
+/**
+ * Options for rewriting the frontmatter tags
+ */
+export interface FrontmatterTagOptions {
+	// Deduplicate (ignoring case) and sort the tags
+	sort: boolean;
+	// Tags to add when missing
+	add: string[];
+}
+
+function parseValueTags(value: string): TagItem[] {
+	const items: TagItem[] = [];
+	value.replace(FRONTMATTER_TAG_REGEX, (match, quote: string, hash: string, tag: string) => {
+		items.push({ tag, quote, hash });
+		return match;
+	});
+	return items;
+}
+
+function compareTags(a: TagItem, b: TagItem): number {
+	const [keyA, keyB] = [a.tag.toLowerCase(), b.tag.toLowerCase()];
+	if (keyA !== keyB) {
+		return keyA < keyB ? -1 : 1;
+	}
+	return a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0;
+}
+
+/**
+ * Rewrite a tags entry with the given tags, in the form it was written in: a block list
+ * (keeping its indentation), a flow array or a comma- or space-separated string. An empty
+ * entry becomes a flow array. Returns null for entries that cannot be rewritten without
+ * losing something: comments, block scalars, nested or multi-line values.
+ */
+function rewriteTagEntry(lines: string[], map: (tag: string) => string, options: FrontmatterTagOptions): string[] | null {
+	if (lines.some(line => stripComment(line) !== line)) {
+		return null;
+	}
+
+	const colon = lines[0].indexOf(':');
+	const key = lines[0].slice(0, colon + 1);
+	const value = lines[0].slice(colon + 1).trim();
+	const rest = lines.slice(1).filter(line => line.trim() !== '');
+	const format = (item: TagItem) => item.quote + item.hash + item.tag + item.quote;
+
+	let items: TagItem[];
+	let write: (items: TagItem[]) => string[];
+	if (value === '' && rest.length > 0) {
+		if (!rest.every(line => /^[ \t]*-[ \t]+\S/.test(line))) {
+			return null;
+		}
+		const indent = rest[0].match(/^[ \t]*/)![0];
+		items = ([] as TagItem[]).concat(...rest.map(line => parseValueTags(line.replace(/^[ \t]*-/, ''))));
+		write = tags => [key, ...tags.map(item => `${indent}- ${format(item)}`)];
+	} else if (rest.length > 0 || /^[|>]/.test(value)) {
+		return null;
+	} else if (value === '' || (value.startsWith('[') && value.endsWith(']'))) {
+		items = parseValueTags(value.slice(1, -1));
+		write = tags => [`${key} [${tags.map(format).join(', ')}]`];
+	} else {
+		items = parseValueTags(value);
+		// A quoted string of several tags keeps its quotes around the whole list
+		const wrap = /^(["']).*\1$/.test(value) && items.every(item => item.quote === '') ? value[0] : '';
+		const separator = value.includes(',') ? ', ' : ' ';
+		// Several tags next to a quoted one are not valid YAML, so they become a flow array
+		write = tags => tags.length > 1 && tags.some(item => item.quote !== '')
+			? [`${key} [${tags.map(format).join(', ')}]`]
+			: [`${key} ${wrap}${tags.map(format).join(separator)}${wrap}`];
+	}
+
+	let tags = items.map(item => ({ ...item, tag: map(item.tag) }));
+	tags.push(...options.add.map(tag => ({ tag, quote: '', hash: '' })));
+	if (options.sort) {
+		tags = tags.filter((item, index) => tags.findIndex(other => tagKey(other.tag) === tagKey(item.tag)) === index);
+		tags.sort(compareTags);
+	}
+	if (tags.length === 0) {
+		return lines;
+	}
+	return write(tags);
+}
+
+/**
+ * Add tags to a tags entry with comments without touching its other lines: new items
+ * after the last item of a block list, or before the closing bracket of a one-line flow
+ * array. Returns null for other forms.
+ */
+function appendTagItems(lines: string[], add: string[]): string[] | null {
+	const colon = lines[0].indexOf(':');
+	const value = stripComment(lines[0].slice(colon + 1));
+	const rest = lines.slice(1);
+	const isCommentOrBlank = (line: string) => stripComment(line).trim() === '';
+
+	if (value.trim() === '') {
+		const itemIndexes = rest
+			.map((line, index) => /^[ \t]*-(?=[ \t]|$)/.test(line) ? index : -1)
+			.filter(index => index !== -1);
+		if (itemIndexes.length === 0 || !rest.every((line, index) => itemIndexes.includes(index) || isCommentOrBlank(line))) {
+			return null;
+		}
+		const last = itemIndexes[itemIndexes.length - 1];
+		const indent = rest[last].match(/^[ \t]*/)![0];
+		return [lines[0], ...rest.slice(0, last + 1), ...add.map(tag => `${indent}- ${tag}`), ...rest.slice(last + 1)];
+	}
+
+	const trimmed = value.trimEnd();
+	if (!rest.every(isCommentOrBlank) || !trimmed.trim().startsWith('[') || !trimmed.endsWith(']')) {
+		return null;
+	}
+	const close = colon + trimmed.length;
+	const inner = trimmed.slice(trimmed.indexOf('[') + 1, -1);
+	const added = (inner.trim() === '' ? '' : ', ') + add.join(', ');
+	return [lines[0].slice(0, close).trimEnd() + added + lines[0].slice(close), ...rest];
+}
+
+/**
+ * Apply a mapping to every frontmatter tag. With `sort`, duplicates are removed and tags
+ * sorted; `add` lists tags to add to the first tags entry when missing (creating a `tags`
+ * entry if needed). Entries that cannot be rewritten safely are only mapped in place,
+ * with the tags to add appended when their form allows it (see appendTagItems).
+ */
+export function rewriteFrontmatterTags(
+	content: string,
+	map: (tag: string) => string,
+	options: FrontmatterTagOptions = { sort: false, add: [] }
+): string {
+	const segment = findFrontmatter(content);
+	if (!segment) {
+		return content;
+	}
+
+	const eol = segment.content.includes('\r\n') ? '\r\n' : '\n';
+	const lines = segment.content.split(/\r?\n/);
+	const parsed = parseFrontmatterYaml(lines.slice(1, -1).join('\n'));
+	const tagEntries = parsed.entries.filter(entry => TAG_KEYS.includes(entry.key));
+
+	const existing = new Set<string>();
+	for (const entry of tagEntries) {
+		entry.lines.forEach((line, index) => mapLineTags(line, index === 0, tag => {
+			existing.add(tagKey(map(tag)));
+			return tag;
+		}));
+	}
+	const add = options.add.filter((tag, index, all) =>
+		!existing.has(tagKey(tag)) && all.findIndex(other => tagKey(other) === tagKey(tag)) === index);
+
+	if (tagEntries.length === 0 && add.length > 0) {
+		parsed.entries.push({ key: 'tags', lines: [`tags: [${add.join(', ')}]`], comments: [], line: lines.length - 2 });
+	}
+	tagEntries.forEach((entry, index) => {
+		const rewritten = options.sort || (index === 0 && add.length > 0)
+			? rewriteTagEntry(entry.lines, map, { sort: options.sort, add: index === 0 ? add : [] })
+			: null;
+		if (rewritten) {
+			entry.lines = rewritten;
+			return;
+		}
+		entry.lines = entry.lines.map((line, lineIndex) => mapLineTags(line, lineIndex === 0, map));
+		if (index === 0 && add.length > 0) {
+			entry.lines = appendTagItems(entry.lines, add) || entry.lines;
+		}
+	});
+
+	const body = serializeFrontmatterYaml(parsed, eol);
+	const rewritten = [lines[0], ...(body === '' && lines.length === 2 ? [] : [body]), lines[lines.length - 1]].join(eol);
+	return content.slice(0, segment.start) + rewritten + content.slice(segment.end);
+}
+
+/**
+ * Append tags as a line of #tags at the end of the body
+ */
+function appendInlineTags(content: string, tags: string[]): string {
+	if (tags.length === 0) {
+		return content;
+	}
+	const eol = content.includes('\r\n') ? '\r\n' : '\n';
+	const body = content.replace(/\s*$/, '');
+	return body + eol + eol + tags.map(tag => `#${tag}`).join(' ') + eol;
+}
+
 export class TagRules {
 	settings: VaultLinterSettings;
 
@@ -15,16 +323,55 @@ export class TagRules {
 	 * Extract all tags from content (both inline #tags and frontmatter tags)
 	 */
 	extractTags(content: string): string[] {
-		const tags: string[] = [];
+		return this.findTags(content).map(occurrence => occurrence.tag);
+	}
 
-		// Extract inline tags
-		const inlineTagRegex = /#([a-zA-Z0-9_\-\/]+)/g;
-		let match;
-		while ((match = inlineTagRegex.exec(content)) !== null) {
-			tags.push(match[1]);
+	/**
+	 * Every tag of a note with its line: frontmatter tags first, then inline tags
+	 * (skipping code, comments, URLs and links)
+	 */
+	findTags(content: string): TagOccurrence[] {
+		return [
+			...readFrontmatterTags(content),
+			...detectTags(content).map(range => ({ tag: range.content.slice(1), lineNumber: lineNumberAt(content, range.start) }))
+		];
+	}
+
+	/**
+	 * Whether synonyms or renames are configured
+	 */
+	hasTaxonomy(): boolean {
+		return Object.keys(this.settings.tagSynonyms).length > 0 || Object.keys(this.settings.tagRenames).length > 0;
+	}
+
+	/**
+	 * Map a tag through the taxonomy: a synonym becomes its canonical tag, then a renamed
+	 * hierarchy moves along with its children (`proj/alpha` → `projects/alpha`).
+	 * Matching ignores case and a leading #.
+	 */
+	applyTaxonomy(tag: string): string {
+		let result = tag;
+
+		for (const [synonym, canonical] of Object.entries(this.settings.tagSynonyms)) {
+			if (tagKey(synonym) === tagKey(result)) {
+				result = canonical.replace(/^#/, '');
+				break;
+			}
 		}
 
-		return tags;
+		// Longest hierarchy first, so `a/b` wins over `a`
+		const renames = Object.entries(this.settings.tagRenames)
+			.map(([from, to]) => [tagKey(from), to.replace(/^#/, '')])
+			.sort((a, b) => b[0].length - a[0].length);
+		const key = tagKey(result);
+		for (const [from, to] of renames) {
+			if (from !== '' && (key === from || key.startsWith(from + '/'))) {
+				result = to + result.slice(from.length);
+				break;
+			}
+		}
+
+		return result;
 	}
 
 	/**
@@ -41,16 +388,13 @@ export class TagRules {
 			case 'uppercase':
 				return tag.toUpperCase();
 			case 'camelCase':
-				// Convert to camelCase: split on non-alphanumeric, capitalize first letter of each word after first
-				return tag
-					.split(/[_\-\/]/)
-					.map((word, index) => {
-						if (index === 0) {
-							return word.toLowerCase();
-						}
-						return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-					})
-					.join('');
+				return formatLevels(tag, words => words.map((word, index) => index === 0 ? word.toLowerCase() : capitalize(word)).join(''));
+			case 'PascalCase':
+				return formatLevels(tag, words => words.map(capitalize).join(''));
+			case 'kebab-case':
+				return formatLevels(tag, words => words.map(word => word.toLowerCase()).join('-'));
+			case 'snake_case':
+				return formatLevels(tag, words => words.map(word => word.toLowerCase()).join('_'));
 			case 'none':
 			default:
 				return tag;
@@ -58,16 +402,105 @@ export class TagRules {
 	}
 
 	/**
-	 * Apply tag rules to content (deterministic tag merging)
+	 * Whether a tag is on the allowed list. An entry ending in `/*` allows the tags below it;
+	 * an empty list allows every tag.
 	 */
-	enforce(content: string): string {
-		if (!this.settings.enforceTagRules) {
+	isAllowed(tag: string): boolean {
+		const allowed = this.settings.allowedTags.map(tagKey).filter(entry => entry !== '');
+		if (allowed.length === 0) {
+			return true;
+		}
+		const key = tagKey(tag);
+		return allowed.some(entry => entry.endsWith('/*')
+			? key.startsWith(entry.slice(0, -1))
+			: key === entry);
+	}
+
+	/**
+	 * Inline tags to sync to the frontmatter, normalized, skipping lines where the `tags`
+	 * rule is suppressed: the edit would land on the frontmatter rather than on that line
+	 */
+	private syncedInlineTags(content: string, suppressions?: Suppressions): string[] {
+		return detectTags(content)
+			.filter(range => !suppressions || !isSuppressed(suppressions, 'tags', lineNumberAt(content, range.start)))
+			.map(range => this.normalizeTag(this.applyTaxonomy(range.content.slice(1))));
+	}
+
+	/**
+	 * Report tags that are not allowed, as they will be after the taxonomy is applied, and
+	 * inline tags that cannot be synced to a frontmatter tags entry written in a form the
+	 * linter does not rewrite
+	 */
+	validate(content: string, suppressions?: Suppressions): LintError[] {
+		const errors: LintError[] = [];
+		for (const occurrence of this.findTags(content)) {
+			const canonical = this.normalizeTag(this.applyTaxonomy(occurrence.tag));
+			if (this.isAllowed(canonical)) {
+				continue;
+			}
+			const renamed = tagKey(canonical) !== tagKey(occurrence.tag) ? ` (#${canonical} after the taxonomy is applied)` : '';
+			errors.push({
+				type: 'tag-not-allowed',
+				message: `Tag #${occurrence.tag}${renamed} is not in the allowed tags`,
+				lineNumber: occurrence.lineNumber
+			});
+		}
+
+		const frontmatter = findFrontmatter(content);
+		if (this.settings.enforceTagRules && this.settings.tagSync === 'inline-to-frontmatter' && frontmatter) {
+			const listed = new Set(readFrontmatterTags(this.enforce(content, suppressions)).map(occurrence => tagKey(occurrence.tag)));
+			const missing = this.syncedInlineTags(content, suppressions)
+				.filter((tag, index, all) => !listed.has(tagKey(tag)) && all.findIndex(other => tagKey(other) === tagKey(tag)) === index);
+			if (missing.length > 0) {
+				const body = frontmatter.content.split(/\r?\n/).slice(1, -1).join('\n');
+				const entry = parseFrontmatterYaml(body).entries.find(e => TAG_KEYS.includes(e.key));
+				errors.push({
+					type: 'tag-sync-failed',
+					message: `Inline tags ${missing.map(tag => `#${tag}`).join(', ')} cannot be added to the frontmatter tags automatically; add them by hand`,
+					lineNumber: entry ? lineNumberAt(content, frontmatter.start) + 1 + entry.line : 1
+				});
+			}
+		}
+		return errors;
+	}
+
+	/**
+	 * Apply tag rules to content: the taxonomy and tag format to inline and frontmatter
+	 * tags, then sorting and syncing the frontmatter tags when tag rules are enforced
+	 */
+	enforce(content: string, suppressions?: Suppressions): string {
+		const enforceRules = this.settings.enforceTagRules;
+		if (!enforceRules && !this.hasTaxonomy()) {
 			return content;
 		}
+		const canonical = (tag: string) => this.normalizeTag(this.applyTaxonomy(tag));
+
+		// Replace inline tags with normalized versions, from the end so offsets stay valid
+		let result = content;
+		for (const range of detectTags(content).reverse()) {
+			result = result.slice(0, range.start) + '#' + canonical(range.content.slice(1)) + result.slice(range.end);
+		}
+
+		if (!enforceRules) {
+			return rewriteFrontmatterTags(result, canonical);
+		}
 
-		// Replace inline tags with normalized versions
-		return content.replace(/#([a-zA-Z0-9_\-\/]+)/g, (match, tag) => {
-			return '#' + this.normalizeTag(tag);
+		const inlineTags = detectTags(result).map(range => range.content.slice(1));
+		result = rewriteFrontmatterTags(result, canonical, {
+			sort: this.settings.sortFrontmatterTags,
+			add: this.settings.tagSync === 'inline-to-frontmatter' ? this.syncedInlineTags(result, suppressions) : []
 		});
+
+		if (this.settings.tagSync === 'frontmatter-to-inline') {
+			const inline = new Set(inlineTags.map(tagKey));
+			const missing = readFrontmatterTags(result)
+				.map(occurrence => occurrence.tag)
+				.filter((tag, index, all) => !inline.has(tagKey(tag)) && all.findIndex(other => tagKey(other) === tagKey(tag)) === index)
+				// Only tags that can be written inline, e.g. not `2024`
+				.filter(tag => detectTags(`#${tag}`).some(range => range.content.length === tag.length + 1));
+			result = appendInlineTags(result, missing);
+		}
+
+		return result;
 	}
 }
@@ -0,0 +1,186 @@
+/**
+ * Minimal YAML frontmatter parser
+ * Splits a frontmatter body into top-level entries while keeping every original line,
+ * so entries can be validated and reordered without losing comments or formatting
+ */
+
+/**
+ * A top-level key together with its continuation lines
+ * (block lists, nested maps, multi-line scalars)
+ */
+export interface FrontmatterEntry {
+	key: string;
+	lines: string[];
+	comments: string[];
+	line: number;
+}
+
+/**
+ * A problem found while parsing frontmatter; line is 0-based within the frontmatter body
+ */
+export interface FrontmatterIssue {
+	message: string;
+	line: number;
+}
+
+export interface ParsedFrontmatter {
+	entries: FrontmatterEntry[];
+	trailing: string[];
+	issues: FrontmatterIssue[];
+}
+
+const KEY_REGEX = /^("[^"]*"|'[^']*'|[^\s#:\-?][^:]*?|-[^\s:][^:]*?)[ \t]*:(?:[ \t]|$)/;
+
+/**
+ * Parse a frontmatter body (the lines between the --- fences)
+ */
+export function parseFrontmatterYaml(body: string): ParsedFrontmatter {
+	const entries: FrontmatterEntry[] = [];
+	const issues: FrontmatterIssue[] = [];
+	const seen = new Map<string, number>();
+	let pending: string[] = [];
+
+	const lines = body === '' ? [] : body.split(/\r?\n/);
+
+	lines.forEach((line, index) => {
+		const indentation = line.match(/^[ \t]*/)![0];
+		if (indentation.includes('\t') && line.trim() !== '') {
+			issues.push({ message: 'Tabs are not allowed for indentation in YAML', line: index });
+		}
+
+		// Blank lines and comments attach to the next key
+		if (line.trim() === '' || /^[ \t]*#/.test(line) && indentation === '') {
+			pending.push(line);
+			return;
+		}
+
+		const current = entries[entries.length - 1];
+
+		// Indented lines and column-0 list items continue the previous key
+		if (indentation !== '' || /^-(?:[ \t]|$)/.test(line)) {
+			if (!current) {
+				issues.push({ message: 'Value without a key', line: index });
+				pending.push(line);
+				return;
+			}
+			current.lines.push(...pending, line);
+			pending = [];
+			return;
+		}
+
+		const keyMatch = line.match(KEY_REGEX);
+		if (!keyMatch) {
+			issues.push({ message: `Cannot parse line: ${line.trim()}`, line: index });
+			if (current) {
+				current.lines.push(...pending, line);
+				pending = [];
+			} else {
+				pending.push(line);
+			}
+			return;
+		}
+
+		const key = unquote(keyMatch[1]);
+		if (seen.has(key)) {
+			issues.push({ message: `Duplicate key '${key}' (first defined on line ${seen.get(key)! + 1} of the frontmatter)`, line: index });
+		} else {
+			seen.set(key, index);
+		}
+
+		entries.push({ key, lines: [line], comments: pending, line: index });
+		pending = [];
+	});
+
+	return { entries, trailing: pending, issues };
+}
+
+/**
+ * Serialize parsed frontmatter back into a body, line for line
+ */
+export function serializeFrontmatterYaml(parsed: ParsedFrontmatter, eol = '\n'): string {
+	const lines: string[] = [];
+	for (const entry of parsed.entries) {
+		lines.push(...entry.comments, ...entry.lines);
+	}
+	lines.push(...parsed.trailing);
+	return lines.join(eol);
+}
+
+/**
+ * Read the value of an entry as a scalar string or a list of strings.
+ * Returns null for empty values and for nested maps or block scalars.
+ */
+export function getEntryValue(entry: FrontmatterEntry): string | string[] | null {
+	const inline = stripComment(entry.lines[0].slice(entry.lines[0].indexOf(':') + 1)).trim();
+	const rest = entry.lines.slice(1).filter(line => line.trim() !== '' && !/^[ \t]*#/.test(line));
+
+	if (inline.startsWith('[') && inline.endsWith(']')) {
+		const inner = inline.slice(1, -1).trim();
+		return inner === '' ? [] : splitFlowList(inner).map(item => unquote(item.trim()));
+	}
+
+	if (inline === '' && rest.length > 0 && rest.every(line => /^[ \t]*-(?:[ \t]|$)/.test(line))) {
+		return rest.map(line => unquote(stripComment(line.replace(/^[ \t]*-/, '')).trim()));
+	}
+
+	if (inline === '' || inline === '|' || inline === '>' || /^[|>][+-]?$/.test(inline)) {
+		return null;
+	}
+
+	return unquote(inline);
+}
+
+/**
+ * Remove surrounding single or double quotes from a scalar
+ */
+export function unquote(value: string): string {
+	if (value.length >= 2 && (value[0] === '"' || value[0] === '\'') && value[value.length - 1] === value[0]) {
+		return value.slice(1, -1);
+	}
+	return value;
+}
+
+/**
+ * Remove a trailing ' # comment' from a value, ignoring # inside quotes
+ */
+export function stripComment(value: string): string {
+	let quote: string | null = null;
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			}
+		} else if (char === '"' || char === '\'') {
+			quote = char;
+		} else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+			return value.slice(0, i);
+		}
+	}
+	return value;
+}
+
+/**
+ * Split the inside of a flow list on commas that are not inside quotes
+ */
+function splitFlowList(inner: string): string[] {
+	const items: string[] = [];
+	let quote: string | null = null;
+	let current = '';
+	for (const char of inner) {
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			}
+		} else if (char === '"' || char === '\'') {
+			quote = char;
+		} else if (char === ',') {
+			items.push(current);
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+	items.push(current);
+	return items.filter(item => item.trim() !== '');
+}
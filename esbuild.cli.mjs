@@ -0,0 +1,24 @@
+import esbuild from "esbuild";
+import builtins from "builtin-modules";
+import { readFileSync } from "fs";
+
+const manifest = JSON.parse(readFileSync("manifest.json", "utf8"));
+
+// Command line build: the engine bundled for Node, without any Obsidian module
+await esbuild.build({
+	banner: {
+		js: '#!/usr/bin/env node',
+	},
+	entryPoints: ['cli/index.ts'],
+	bundle: true,
+	platform: 'node',
+	external: [...builtins],
+	format: 'cjs',
+	target: 'node16',
+	logLevel: "info",
+	treeShaking: true,
+	define: {
+		'process.env.VAULT_LINTER_VERSION': JSON.stringify(manifest.version),
+	},
+	outfile: 'dist/vault-linter.js',
+});
@@ -0,0 +1,22 @@
+import esbuild from "esbuild";
+import builtins from "builtin-modules";
+import { spawnSync } from "child_process";
+import { readdirSync } from "fs";
+import process from "process";
+
+// Tests: every tests/*.test.ts bundled for Node, then run by Node's test runner
+const tests = readdirSync('tests').filter(file => file.endsWith('.test.ts'));
+
+await esbuild.build({
+	entryPoints: tests.map(file => `tests/${file}`),
+	bundle: true,
+	platform: 'node',
+	external: [...builtins],
+	format: 'cjs',
+	target: 'node16',
+	logLevel: "warning",
+	outdir: 'test-build',
+});
+
+const result = spawnSync(process.execPath, ['--test', ...tests.map(file => `test-build/${file.replace(/\.ts$/, '.js')}`)], { stdio: 'inherit' });
+process.exit(result.status === null ? 1 : result.status);
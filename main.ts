@@ -1,22 +1,74 @@
-import { Editor, MarkdownView, Notice, Plugin, TFile, TFolder } from 'obsidian';
-import { VaultLinterSettings, DEFAULT_SETTINGS } from './settings';
+import { Editor, MarkdownView, Menu, Notice, parseFrontMatterAliases, Plugin, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { CustomRuleDefinition, VaultLinterSettings, DEFAULT_SETTINGS, IGNORE_FILE, VAULT_CONFIG_FILE } from './settings';
 import { VaultLinterSettingTab } from './settingsTab';
 import { NormalizationPipeline } from './engine/normalize';
-import { generateChangeReport, formatReportAsMarkdown, formatVaultReportAsMarkdown, ChangeReport } from './engine/report';
+import { LinkIndexEntry, VaultLinkIndex } from './engine/linkIndex';
+import { parseVaultConfig } from './engine/customRules';
+import { isInScope, parseIgnoreFile } from './engine/scope';
+import { generateChangeReport, formatReportAsMarkdown, ChangeReport } from './engine/report';
+import { formatVaultReport, reportFileExtension } from './engine/reportFormats';
+import { normalizeReportsFolder, REPORT_FILE_PREFIX, summarizeReports, TAG_INVENTORY_NOTE_NAME } from './engine/history';
+import { TagRules } from './engine/tags';
+import { buildTagInventory, formatTagInventoryAsMarkdown } from './engine/tagInventory';
+import { createRun, NormalizationRun, planUndo, recordFile, RunSummary, SnapshotFile } from './engine/snapshot';
+import { BatchResult, describeError } from './engine/progress';
+import { ReviewedFile, ReviewModal } from './reviewModal';
+import { AutoLinter } from './autoLint';
+import { createEditorLinter } from './editorLint';
+import { FolderPickerModal } from './folderPickerModal';
+import { ProgressModal } from './progressModal';
+import { RunPickerModal } from './runPickerModal';
+import { ReportStore } from './reportStore';
+import { SnapshotStore } from './snapshotStore';
+
+// Milliseconds of work between yields to the interface during batch runs
+const YIELD_INTERVAL = 50;
+
+// What the file explorer menu and folder picker commands do with the chosen notes
+type SelectionAction = 'normalize' | 'dry-run' | 'report';
+
+// Title and icon of each action in menus and commands
+const SELECTION_ACTIONS: { action: SelectionAction; title: string; icon: string }[] = [
+	{ action: 'normalize', title: 'Normalize', icon: 'wand' },
+	{ action: 'dry-run', title: 'Dry run', icon: 'eye' },
+	{ action: 'report', title: 'Lint report', icon: 'file-text' }
+];
 
 export default class VaultLinterPlugin extends Plugin {
 	settings: VaultLinterSettings;
 	pipeline: NormalizationPipeline;
+	snapshots: SnapshotStore;
+	reportStore: ReportStore;
+	autoLinter: AutoLinter;
+	// Globs from .vaultlinterignore, reloaded before each run
+	ignorePatterns: string[] = [];
+	// Files, aliases, headings and blocks that links resolve against
+	linkIndex: VaultLinkIndex | null = null;
 
 	async onload() {
 		await this.loadSettings();
 
+		// Snapshots of batch runs live in the plugin data folder
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.snapshots = new SnapshotStore(this.app.vault.adapter, `${pluginDir}/snapshots`);
+		this.reportStore = new ReportStore(this.app, `${pluginDir}/report-history.json`);
+
 		// Initialize normalization pipeline
 		this.pipeline = new NormalizationPipeline(this.settings);
 
 		// Add settings tab
 		this.addSettingTab(new VaultLinterSettingTab(this.app, this));
 
+		// Diagnostics and quick fixes in Markdown editors
+		this.registerEditorExtension(createEditorLinter(this));
+
+		// Lint on create/save and the status bar start once the vault has loaded
+		this.autoLinter = new AutoLinter(this);
+		this.app.workspace.onLayoutReady(async () => {
+			await this.prepareLint();
+			this.autoLinter.register();
+		});
+
 		// Command: Normalize current file
 		this.addCommand({
 			id: 'normalize-current-file',
@@ -62,15 +114,81 @@ export default class VaultLinterPlugin extends Plugin {
 			}
 		});
 
+		// Command: Review changes for entire vault
+		this.addCommand({
+			id: 'review-entire-vault',
+			name: 'Review: Entire vault',
+			callback: async () => {
+				await this.prepareLint();
+				await this.reviewFiles(this.getFilesInScope(this.app.vault.getMarkdownFiles()));
+			}
+		});
+
+		// Command: Tag inventory
+		this.addCommand({
+			id: 'tag-inventory',
+			name: 'Tag inventory report',
+			callback: async () => {
+				await this.writeTagInventory();
+			}
+		});
+
+		// Commands: Run on a folder chosen from a list, for folders without an open note
+		for (const { action, title } of SELECTION_ACTIONS) {
+			this.addCommand({
+				id: `${action}-chosen-folder`,
+				name: `${title}: Choose folder...`,
+				callback: () => {
+					new FolderPickerModal(this.app, `Choose a folder to ${title.toLowerCase()}`,
+						folder => this.runOnSelection([folder], action)).open();
+				}
+			});
+		}
+
+		// File explorer menus for a file or folder, and for several selected ones
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => this.addSelectionMenuItems(menu, [file])));
+		this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => this.addSelectionMenuItems(menu, files)));
+
+		// Command: Undo last normalization run
+		this.addCommand({
+			id: 'undo-last-normalization-run',
+			name: 'Undo last normalization run',
+			callback: async () => {
+				const runs = await this.snapshots.list();
+				if (runs.length === 0) {
+					new Notice('No normalization runs to undo');
+					return;
+				}
+				await this.undoRun(runs[0]);
+			}
+		});
+
+		// Command: Pick a past normalization run to undo
+		this.addCommand({
+			id: 'undo-normalization-run',
+			name: 'Undo a past normalization run...',
+			callback: async () => {
+				const runs = await this.snapshots.list();
+				if (runs.length === 0) {
+					new Notice('No normalization runs to undo');
+					return;
+				}
+				new RunPickerModal(this.app, runs, run => this.undoRun(run)).open();
+			}
+		});
+
 		console.log('Obsidian Vault Linter plugin loaded');
 	}
 
 	onunload() {
+		this.autoLinter?.unload();
 		console.log('Obsidian Vault Linter plugin unloaded');
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copied so per-rule changes never modify the defaults
+		this.settings.rules = { ...this.settings.rules };
 	}
 
 	async saveSettings() {
@@ -78,13 +196,95 @@ export default class VaultLinterPlugin extends Plugin {
 		
 		// Update pipeline with new settings
 		this.pipeline.updateSettings(this.settings);
+		this.autoLinter.updateStatus();
+	}
+
+	/**
+	 * Apply all linting rules to content: the fixes check() reports, as in reports and the editor.
+	 * Throws when the fixes do not settle (see NormalizationPipeline.normalize).
+	 */
+	lintContent(content: string, filePath: string): string {
+		return this.pipeline.normalize(content, filePath);
+	}
+
+	/**
+	 * Refresh everything a lint run depends on: the link index and the vault's custom rules
+	 */
+	async prepareLint() {
+		this.refreshLinkIndex();
+		await this.loadVaultConfig();
+	}
+
+	/**
+	 * Load custom rules from .vault-linter.json at the vault root, if present
+	 */
+	async loadVaultConfig() {
+		const adapter = this.app.vault.adapter;
+		let customRules: CustomRuleDefinition[] = [];
+		const errors: string[] = [];
+
+		if (await adapter.exists(VAULT_CONFIG_FILE)) {
+			const config = parseVaultConfig(await adapter.read(VAULT_CONFIG_FILE));
+			customRules = config.customRules;
+			errors.push(...config.errors);
+		}
+
+		this.pipeline.setVaultCustomRules(customRules);
+		errors.push(...this.pipeline.customRuleErrors);
+
+		this.ignorePatterns = await adapter.exists(IGNORE_FILE)
+			? parseIgnoreFile(await adapter.read(IGNORE_FILE))
+			: [];
+		for (const error of errors) {
+			console.warn(`Vault Linter: ${error}`);
+			new Notice(`⚠ ${error}`);
+		}
+	}
+
+	/**
+	 * Whether a note is linted, according to the include/exclude globs and .vaultlinterignore
+	 */
+	isFileInScope(file: TFile): boolean {
+		return isInScope(file.path, this.settings, this.ignorePatterns, [`${normalizeReportsFolder(this.settings.reportsFolder)}/`]);
+	}
+
+	/**
+	 * Drop the notes that are excluded from linting
+	 */
+	getFilesInScope(files: TFile[]): TFile[] {
+		return files.filter(file => this.isFileInScope(file));
+	}
+
+	/**
+	 * Rebuild the vault link index so wikilinks resolve against the current set of files
+	 */
+	refreshLinkIndex() {
+		this.linkIndex = new VaultLinkIndex(this.app.vault.getFiles().map(file => this.linkIndexEntry(file)));
+		this.pipeline.setLinkIndex(this.linkIndex);
+	}
+
+	/**
+	 * Update the link index entry of one edited file; builds the index if there is none yet
+	 */
+	updateLinkIndex(file: TFile) {
+		if (this.linkIndex) {
+			this.linkIndex.update(this.linkIndexEntry(file));
+		} else {
+			this.refreshLinkIndex();
+		}
 	}
 
 	/**
-	 * Apply all linting rules to content
+	 * Index entry of a file, with the aliases, headings and blocks from the metadata cache
 	 */
-	lintContent(content: string, fileName: string): string {
-		return this.pipeline.normalize(content, fileName);
+	linkIndexEntry(file: TFile): LinkIndexEntry {
+		const cache = file.extension === 'md' ? this.app.metadataCache.getFileCache(file) : null;
+		return {
+			path: file.path,
+			aliases: parseFrontMatterAliases(cache?.frontmatter) || [],
+			headings: cache ? (cache.headings || []).map(heading => heading.heading) : undefined,
+			blockIds: cache ? Object.keys(cache.blocks || {}) : undefined
+		};
 	}
 
 	/**
@@ -97,15 +297,33 @@ export default class VaultLinterPlugin extends Plugin {
 			return;
 		}
 
+		await this.prepareLint();
+		if (!this.isFileInScope(file)) {
+			new Notice(`${file.path} is excluded from linting (see settings and ${IGNORE_FILE})`);
+			return;
+		}
+
 		const content = editor.getValue();
-		const normalized = this.lintContent(content, file.name);
+		let normalized: string;
+		try {
+			normalized = this.lintContent(content, file.path);
+		} catch (error) {
+			new Notice(`✗ ${describeError(error)}`);
+			return;
+		}
+		const errors = this.pipeline.validate(content, file.path);
 
 		if (content === normalized) {
 			new Notice('✓ File already conforms to linting rules');
 		} else {
+			this.autoLinter.markOwnWrite(file.path, normalized);
 			editor.setValue(normalized);
 			new Notice('✓ File normalized successfully');
 		}
+
+		if (errors.length > 0) {
+			new Notice(`⚠ ${errors.length} lint error(s) need manual fixing (see "Dry run: Current file")`);
+		}
 	}
 
 	/**
@@ -116,7 +334,7 @@ export default class VaultLinterPlugin extends Plugin {
 		// Get current active file to determine folder
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
-			new Notice('Please open a file in the folder you want to normalize');
+			new Notice('Please open a file in the folder you want to normalize, or use "Normalize: Choose folder..."');
 			return;
 		}
 
@@ -126,48 +344,87 @@ export default class VaultLinterPlugin extends Plugin {
 			return;
 		}
 
-		const files = this.getMarkdownFilesInFolder(folder);
-		
-		if (files.length === 0) {
-			new Notice('No markdown files found in this folder');
-			return;
-		}
-
-		new Notice(`Starting folder normalization (${files.length} files in ${folder.path})...`);
-
-		let normalizedCount = 0;
-		let errorCount = 0;
-
-		for (const file of files) {
-			try {
-				await this.normalizeFile(file);
-				normalizedCount++;
-			} catch (error) {
-				console.error(`Error normalizing ${file.path}:`, error);
-				errorCount++;
-			}
-		}
-
-		if (errorCount > 0) {
-			new Notice(`✓ Normalized ${normalizedCount} files (${errorCount} errors)`);
-		} else {
-			new Notice(`✓ Successfully normalized ${normalizedCount} files in ${folder.path}`);
-		}
+		await this.runOnSelection([folder], 'normalize');
 	}
 
 	/**
-	 * Get all markdown files in a folder (not recursive)
+	 * Get all markdown files in a folder, optionally with those of its subfolders
 	 */
-	getMarkdownFilesInFolder(folder: TFolder): TFile[] {
+	getMarkdownFilesInFolder(folder: TFolder, recursive = false): TFile[] {
 		const files: TFile[] = [];
 		for (const child of folder.children) {
 			if (child instanceof TFile && child.extension === 'md') {
 				files.push(child);
+			} else if (recursive && child instanceof TFolder) {
+				files.push(...this.getMarkdownFilesInFolder(child, true));
 			}
 		}
 		return files;
 	}
 
+	/**
+	 * Markdown files among selected files and folders, each once
+	 */
+	getMarkdownFilesInSelection(entries: TAbstractFile[]): TFile[] {
+		const files = new Map<string, TFile>();
+		for (const entry of entries) {
+			const found = entry instanceof TFolder
+				? this.getMarkdownFilesInFolder(entry, this.settings.includeSubfolders)
+				: entry instanceof TFile && entry.extension === 'md' ? [entry] : [];
+			for (const file of found) {
+				files.set(file.path, file);
+			}
+		}
+		return Array.from(files.values());
+	}
+
+	/**
+	 * Add the linter's actions to a file explorer menu when the selection holds notes or folders
+	 */
+	addSelectionMenuItems(menu: Menu, entries: TAbstractFile[]) {
+		if (!entries.some(entry => entry instanceof TFolder || (entry instanceof TFile && entry.extension === 'md'))) {
+			return;
+		}
+		for (const { action, title, icon } of SELECTION_ACTIONS) {
+			menu.addItem(item => item
+				.setTitle(`Vault Linter: ${title}`)
+				.setIcon(icon)
+				.onClick(() => this.runOnSelection(entries, action)));
+		}
+	}
+
+	/**
+	 * Normalize, dry run or report on the notes of selected files and folders. A dry run
+	 * only shows the diffs; normalizing opens the review instead when "Review before
+	 * applying" is on.
+	 */
+	async runOnSelection(entries: TAbstractFile[], action: SelectionAction) {
+		await this.prepareLint();
+		const candidates = this.getMarkdownFilesInSelection(entries);
+		const files = this.getFilesInScope(candidates);
+		if (files.length === 0) {
+			new Notice(candidates.length > 0
+				? `All selected notes are excluded from linting (see settings and ${IGNORE_FILE})`
+				: 'No markdown files to lint in the selection');
+			return;
+		}
+
+		const entry = entries[0];
+		const name = entries.length > 1
+			? `${entries.length} items`
+			: entry instanceof TFolder ? `Folder (${entry.isRoot() ? '/' : entry.path})` : entry.path;
+
+		if (action === 'dry-run') {
+			await this.reviewFiles(files, true);
+		} else if (action === 'normalize' && this.settings.reviewBeforeApply) {
+			await this.reviewFiles(files);
+		} else if (action === 'normalize') {
+			await this.normalizeFiles(files, `Normalize: ${name}`);
+		} else {
+			await this.writeLintReport(files, `Lint report: ${name}`, candidates.length - files.length, false);
+		}
+	}
+
 	/**
 	 * Dry run on current file without making changes
 	 */
@@ -178,100 +435,424 @@ export default class VaultLinterPlugin extends Plugin {
 			return;
 		}
 
+		await this.prepareLint();
+		if (!this.isFileInScope(file)) {
+			new Notice(`${file.path} is excluded from linting (see settings and ${IGNORE_FILE})`);
+			return;
+		}
+
 		const content = editor.getValue();
-		const normalized = this.lintContent(content, file.name);
+		const report = this.buildReport(file, content);
+		const { normalizedContent: normalized, errors, brokenLinks } = report;
 
-		if (content === normalized) {
+		if (content === normalized && errors.length === 0 && brokenLinks.length === 0) {
 			new Notice('✓ File conforms to linting rules');
 		} else {
-			new Notice('⚠ File has linting issues (use "Normalize: Current file" to fix)');
+			if (content !== normalized) {
+				new Notice('⚠ File has linting issues (use "Normalize: Current file" to fix)');
+			}
+			for (const error of errors) {
+				const lineInfo = error.lineNumber ? ` (line ${error.lineNumber})` : '';
+				const severity = error.severity ? `[${error.severity}] ` : '';
+				new Notice(`✗ ${severity}${error.message}${lineInfo}`);
+			}
+			if (brokenLinks.length > 0) {
+				new Notice(`✗ ${brokenLinks.length} broken link(s)`);
+			}
 			
-			// Generate and log report
-			const report = generateChangeReport(file.path, file.name, content, normalized);
+			// Log report
 			const markdown = formatReportAsMarkdown(report);
 			console.log(markdown);
+
+			// Let the user pick which changes to apply to the open editor
+			if (report.hunks.length > 0) {
+				new ReviewModal(this.app, [report], async reviewed => {
+					if (reviewed.length === 0) {
+						return;
+					}
+					if (editor.getValue() !== content) {
+						new Notice('✗ File changed during review; no changes applied');
+						return;
+					}
+					this.autoLinter.markOwnWrite(file.path, reviewed[0].content);
+					editor.setValue(reviewed[0].content);
+					new Notice('✓ Accepted changes applied');
+				}).open();
+			}
 		}
 	}
 
 	/**
-	 * Dry run on entire vault and write report to /Reports
+	 * Run the pipeline on a note and build its change report
 	 */
-	async dryRunEntireVault() {
-		const files = this.app.vault.getMarkdownFiles();
-		new Notice(`Starting vault dry run (${files.length} files)...`);
+	buildReport(file: TFile, content: string): ChangeReport {
+		const result = this.pipeline.lint(content, file.path);
+		return generateChangeReport(
+			file.path,
+			file.name,
+			content,
+			result.normalized,
+			result.diagnostics,
+			result.brokenLinks,
+			result.suppressed,
+			ruleId => this.pipeline.describeRule(ruleId)
+		);
+	}
 
-		const reports: ChangeReport[] = [];
+	/**
+	 * Run an action on each file with a progress modal. The run stops between files when
+	 * cancelled; a file that fails is recorded with its error and the run goes on.
+	 */
+	async runBatch(title: string, files: TFile[], action: (file: TFile) => Promise<void>): Promise<{ result: BatchResult; progress: ProgressModal }> {
+		const progress = new ProgressModal(this.app, title, files.length);
+		progress.open();
+		const result: BatchResult = { total: files.length, processed: 0, cancelled: false, errors: [] };
+		let lastYield = Date.now();
 
 		for (const file of files) {
+			if (progress.cancelled) {
+				result.cancelled = true;
+				break;
+			}
+			progress.update(result.processed, file.path);
 			try {
-				const content = await this.app.vault.read(file);
-				const normalized = this.lintContent(content, file.name);
-				const report = generateChangeReport(file.path, file.name, content, normalized);
-				reports.push(report);
+				await action(file);
 			} catch (error) {
-				console.error(`Error processing ${file.path}:`, error);
+				console.error(`Vault Linter: error processing ${file.path}:`, error);
+				result.errors.push({ path: file.path, message: describeError(error) });
+			}
+			result.processed++;
+
+			// Let the interface redraw and handle the cancel button
+			if (Date.now() - lastYield > YIELD_INTERVAL) {
+				await new Promise(resolve => window.setTimeout(resolve, 0));
+				lastYield = Date.now();
 			}
 		}
 
-		// Generate report markdown
-		const reportMarkdown = formatVaultReportAsMarkdown(reports);
+		progress.update(result.processed, '');
+		return { result, progress };
+	}
+
+	/**
+	 * Show the summary of a batch run in its progress modal, or in a notice when the
+	 * modal was closed
+	 */
+	finishBatch(progress: ProgressModal, result: BatchResult, summary: string) {
+		if (progress.finish(result, summary)) {
+			return;
+		}
+		const cancelled = result.cancelled ? `Cancelled after ${result.processed} of ${result.total} files. ` : '';
+		const failed = result.errors.length > 0
+			? `\n${result.errors.length} file(s) failed: ${result.errors.slice(0, 5).map(error => error.path).join(', ')}${result.errors.length > 5 ? ', …' : ''}`
+			: '';
+		new Notice(`${cancelled}${summary}${failed}`, 10000);
+	}
+
+	/**
+	 * Lint files and build a change report for each, with progress
+	 */
+	async collectReports(files: TFile[], title: string): Promise<{ reports: ChangeReport[]; result: BatchResult; progress: ProgressModal }> {
+		const reports: ChangeReport[] = [];
+		const { result, progress } = await this.runBatch(title, files, async file => {
+			const content = await this.app.vault.read(file);
+			reports.push(this.buildReport(file, content));
+		});
+		return { reports, result, progress };
+	}
+
+	/**
+	 * Open the review modal for every file that would change; a read-only review only
+	 * shows the diffs and cannot write
+	 */
+	async reviewFiles(files: TFile[], readOnly = false) {
+		const { reports, result, progress } = await this.collectReports(files, 'Preparing review');
+		const changed = reports.filter(report => report.hunks.length > 0);
+		if (result.cancelled) {
+			this.finishBatch(progress, result, 'No review opened.');
+			return;
+		}
+		if (changed.length === 0) {
+			this.finishBatch(progress, result, '✓ All files already conform to linting rules');
+			return;
+		}
 
-		// Ensure Reports folder exists
-		const reportsFolder = 'Reports';
-		const existingReportsEntry = this.app.vault.getAbstractFileByPath(reportsFolder);
-		if (!existingReportsEntry) {
-			await this.app.vault.createFolder(reportsFolder);
-		} else if (!(existingReportsEntry instanceof TFolder)) {
-			new Notice(`Cannot save vault lint report: '${reportsFolder}' exists and is not a folder.`);
+		// Failures stay listed behind the review
+		if (result.errors.length > 0) {
+			this.finishBatch(progress, result, `${changed.length} file(s) to review`);
+		} else {
+			progress.dismiss();
+		}
+		new ReviewModal(this.app, changed, readOnly ? null : reviewed => this.applyReviewedFiles(reviewed)).open();
+	}
+
+	/**
+	 * Write reviewed files, skipping any that were edited since the review was prepared
+	 */
+	async applyReviewedFiles(reviewed: ReviewedFile[]) {
+		let appliedCount = 0;
+		const skipped: string[] = [];
+		const run = createRun('Review: Accepted changes');
+
+		for (const { report, content } of reviewed) {
+			const file = this.app.vault.getAbstractFileByPath(report.filePath);
+			if (!(file instanceof TFile)) {
+				skipped.push(report.filePath);
+				continue;
+			}
+			try {
+				const current = await this.app.vault.read(file);
+				if (current !== report.originalContent) {
+					skipped.push(report.filePath);
+					continue;
+				}
+				await this.recordWrite(run, file.path, current, content);
+				await this.writeFile(file, content);
+				appliedCount++;
+			} catch (error) {
+				console.error(`Error applying changes to ${report.filePath}:`, error);
+				skipped.push(report.filePath);
+			}
+		}
+
+		await this.finishRun(run);
+
+		if (skipped.length > 0) {
+			console.warn('Vault Linter: skipped files changed or removed during review:', skipped);
+			new Notice(`✓ Applied changes to ${appliedCount} files (${skipped.length} skipped because they changed during review)`);
+		} else {
+			new Notice(`✓ Applied changes to ${appliedCount} files`);
+		}
+	}
+
+	/**
+	 * Dry run on entire vault and write the report to the reports folder
+	 */
+	async dryRunEntireVault() {
+		await this.prepareLint();
+		const allFiles = this.app.vault.getMarkdownFiles();
+		const files = this.getFilesInScope(allFiles);
+		await this.writeLintReport(files, 'Dry run: Entire vault', allFiles.length - files.length, true);
+	}
+
+	/**
+	 * Lint notes and save the report in the configured format to the reports folder, then
+	 * prune old reports. Only whole-vault runs are added to the report history, so its
+	 * trends stay comparable.
+	 */
+	async writeLintReport(files: TFile[], title: string, excludedFiles: number, recordHistory: boolean) {
+		const { reports, result, progress } = await this.collectReports(files, title);
+		if (result.cancelled) {
+			this.finishBatch(progress, result, 'No report written.');
+			return;
+		}
+
+		// Generate the report in the configured format
+		const format = this.settings.reportFormat;
+		const reportText = formatVaultReport(reports, format, {
+			excludedFiles,
+			describeRule: ruleId => this.pipeline.describeRule(ruleId),
+			toolVersion: this.manifest.version
+		});
+
+		// Ensure the reports folder exists
+		const reportsFolder = normalizeReportsFolder(this.settings.reportsFolder);
+		if (!(await this.reportStore.ensureFolder(reportsFolder))) {
+			this.finishBatch(progress, result, `✗ Cannot save vault lint report: '${reportsFolder}' exists and is not a folder.`);
 			console.error(`Vault Linter: '${reportsFolder}' exists and is not a folder. Cannot create reports directory.`);
 			return;
 		}
 
 		// Write report
-		const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-		const reportFileName = `${reportsFolder}/vault-lint-report-${timestamp}.md`;
-		await this.app.vault.create(reportFileName, reportMarkdown);
+		const date = new Date();
+		const timestamp = date.toISOString().replace(/[:.]/g, '-');
+		const reportFileName = `${reportsFolder}/${REPORT_FILE_PREFIX}${timestamp}.${reportFileExtension(format)}`;
+		await this.app.vault.create(reportFileName, reportText);
+
+		// Retention and history; a failure here keeps the report that was just written
+		try {
+			await this.reportStore.prune(reportsFolder, this.settings.reportRetentionCount, this.settings.reportRetentionDays);
+			if (recordHistory && this.settings.reportHistory) {
+				await this.reportStore.recordRun(reportsFolder, summarizeReports(reports, reportFileName, date),
+					ruleId => this.pipeline.describeRule(ruleId));
+			}
+		} catch (error) {
+			console.error('Vault Linter: failed to update the report history:', error);
+			new Notice(`⚠ Failed to update the report history: ${error instanceof Error ? error.message : error}`);
+		}
 
 		const changedFiles = reports.filter(r => r.changes.length > 0).length;
-		new Notice(`✓ Dry run complete. Report saved to ${reportFileName}\n${changedFiles} files would be changed.`);
+		const erroredFiles = reports.filter(r => r.errors.length > 0).length;
+		const brokenLinks = reports.reduce((sum, r) => sum + r.brokenLinks.length, 0);
+		const suppressed = reports.reduce((sum, r) => sum + r.suppressed.length, 0);
+		this.finishBatch(progress, result, `✓ ${title} complete. Report saved to ${reportFileName}. ${changedFiles} files would be changed, ${erroredFiles} files have lint errors, ${brokenLinks} broken links, ${suppressed} suppressed.`);
+	}
+
+	/**
+	 * Count the tags of every note in scope and save the tag inventory note to the reports
+	 * folder, replacing the previous one
+	 */
+	async writeTagInventory() {
+		await this.prepareLint();
+		const files = this.getFilesInScope(this.app.vault.getMarkdownFiles());
+		const tagRules = new TagRules(this.settings);
+		const notes: { path: string; tags: string[] }[] = [];
+		const { result, progress } = await this.runBatch('Tag inventory', files, async file => {
+			notes.push({ path: file.path, tags: tagRules.extractTags(await this.app.vault.read(file)) });
+		});
+		if (result.cancelled) {
+			this.finishBatch(progress, result, 'No inventory written.');
+			return;
+		}
+
+		const reportsFolder = normalizeReportsFolder(this.settings.reportsFolder);
+		if (!(await this.reportStore.ensureFolder(reportsFolder))) {
+			this.finishBatch(progress, result, `✗ Cannot save the tag inventory: '${reportsFolder}' exists and is not a folder.`);
+			return;
+		}
+		const inventory = buildTagInventory(notes);
+		const notePath = `${reportsFolder}/${TAG_INVENTORY_NOTE_NAME}`;
+		await this.reportStore.writeNote(notePath, formatTagInventoryAsMarkdown(inventory,
+			tag => tagRules.normalizeTag(tagRules.applyTaxonomy(tag))));
+		this.finishBatch(progress, result, `✓ Tag inventory saved to ${notePath}. ${inventory.tags.length} tags, ${inventory.nearDuplicates.length} groups of near-duplicates.`);
 	}
 
 	/**
 	 * Normalize all markdown files in the vault
 	 */
 	async normalizeAllFiles() {
-		const files = this.app.vault.getMarkdownFiles();
-		let normalizedCount = 0;
-		let errorCount = 0;
+		await this.prepareLint();
+		const files = this.getFilesInScope(this.app.vault.getMarkdownFiles());
+
+		if (this.settings.reviewBeforeApply) {
+			await this.reviewFiles(files);
+			return;
+		}
 
-		new Notice(`Starting vault normalization (${files.length} files)...`);
+		await this.normalizeFiles(files, 'Normalize: Entire vault');
+	}
 
-		for (const file of files) {
-			try {
-				await this.normalizeFile(file);
-				normalizedCount++;
-			} catch (error) {
-				console.error(`Error normalizing ${file.path}:`, error);
-				errorCount++;
+	/**
+	 * Normalize files as one undoable run, with progress. A cancelled run keeps the
+	 * files written so far, and they can be undone like a complete run.
+	 */
+	async normalizeFiles(files: TFile[], label: string) {
+		const run = createRun(label);
+		const { result, progress } = await this.runBatch(label, files, file => this.normalizeFile(file, run));
+		await this.finishRun(run);
+
+		const normalized = result.processed - result.errors.length;
+		this.finishBatch(progress, result, `✓ Normalized ${normalized} files, ${run.files.length} changed.`);
+	}
+
+	/**
+	 * Normalize a specific file, recording its original content in the run
+	 */
+	async normalizeFile(file: TFile, run?: NormalizationRun) {
+		const content = await this.app.vault.read(file);
+		const normalized = this.lintContent(content, file.path);
+
+		if (content !== normalized) {
+			if (run) {
+				await this.recordWrite(run, file.path, content, normalized);
 			}
+			await this.writeFile(file, normalized);
 		}
+	}
 
-		if (errorCount > 0) {
-			new Notice(`✓ Normalized ${normalizedCount} files (${errorCount} errors)`);
-		} else {
-			new Notice(`✓ Successfully normalized ${normalizedCount} files`);
+	/**
+	 * Write a note without triggering lint-on-save for the plugin's own change
+	 */
+	async writeFile(file: TFile, content: string) {
+		this.autoLinter.markOwnWrite(file.path, content);
+		await this.app.vault.modify(file, content);
+	}
+
+	/**
+	 * Add a file to the snapshot of a batch run before it is overwritten, so a run that
+	 * stops halfway can be undone too. The run is started with its first file. When the
+	 * snapshot cannot be saved the file must not be written, so this throws.
+	 */
+	async recordWrite(run: NormalizationRun, path: string, originalContent: string, writtenContent: string) {
+		recordFile(run, path, originalContent, writtenContent);
+		try {
+			if (run.files.length === 1) {
+				await this.snapshots.start(run);
+			} else {
+				await this.snapshots.append(run, run.files[run.files.length - 1]);
+			}
+		} catch (error) {
+			run.files.pop();
+			console.error('Vault Linter: could not save snapshot:', error);
+			throw new Error(`Could not save a snapshot, so the file was not changed: ${describeError(error)}`);
 		}
 	}
 
 	/**
-	 * Normalize a specific file
+	 * Add a batch run that changed files to the list of runs to undo
 	 */
-	async normalizeFile(file: TFile) {
-		const content = await this.app.vault.read(file);
-		const normalized = this.lintContent(content, file.name);
+	async finishRun(run: NormalizationRun) {
+		if (run.files.length === 0) {
+			return;
+		}
+		try {
+			await this.snapshots.finish(run, this.settings.snapshotRetention);
+		} catch (error) {
+			console.error('Vault Linter: could not save the snapshot index:', error);
+			new Notice('⚠ Could not update the list of runs to undo; this run is still found from its snapshot');
+		}
+	}
 
-		if (content !== normalized) {
-			await this.app.vault.modify(file, normalized);
+	/**
+	 * Restore the files of a run that still contain exactly what the run wrote.
+	 * Files edited or removed since are skipped and reported, and stay in the snapshot
+	 * so they can be restored later.
+	 */
+	async undoRun(summary: RunSummary) {
+		const run = await this.snapshots.load(summary.id);
+		if (!run) {
+			new Notice('✗ Snapshot of this run is missing');
+			await this.snapshots.remove(summary.id);
+			return;
+		}
+
+		const currentContents = new Map<string, string | null>();
+		for (const snapshot of run.files) {
+			const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+			currentContents.set(snapshot.path, file instanceof TFile ? await this.app.vault.read(file) : null);
+		}
+
+		const plan = planUndo(run, currentContents);
+		const restored = new Set<SnapshotFile>();
+		try {
+			for (const snapshot of plan.restore) {
+				const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+				if (file instanceof TFile) {
+					await this.writeFile(file, snapshot.originalContent);
+					restored.add(snapshot);
+				}
+			}
+		} finally {
+			const remaining = run.files.filter(snapshot => !restored.has(snapshot));
+			if (remaining.length === 0) {
+				await this.snapshots.remove(run.id);
+			} else {
+				await this.snapshots.update({ ...run, files: remaining });
+			}
+		}
+		const restoredCount = restored.size;
+
+		if (plan.skipped.length > 0) {
+			console.warn('Vault Linter: files not restored because they were edited or removed since the run:', plan.skipped);
+			const modified = plan.skipped.filter(skip => skip.reason === 'modified').map(skip => skip.path);
+			const missing = plan.skipped.filter(skip => skip.reason === 'missing').map(skip => skip.path);
+			const details = [
+				modified.length > 0 ? `edited since: ${modified.join(', ')}` : '',
+				missing.length > 0 ? `missing: ${missing.join(', ')}` : ''
+			].filter(detail => detail).join('; ');
+			new Notice(`✓ Restored ${restoredCount} files. ${plan.skipped.length} skipped (${details})`, 10000);
+		} else {
+			new Notice(`✓ Restored ${restoredCount} files from ${run.label}`);
 		}
 	}
 }
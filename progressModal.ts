@@ -0,0 +1,133 @@
+import { App, Modal, Setting } from 'obsidian';
+import { BatchResult, estimateRemaining, formatDuration } from './engine/progress';
+
+// Minimum milliseconds between redraws, so large vaults are not slowed down by rendering
+const RENDER_INTERVAL = 100;
+// Failed notes listed in the summary; the rest are only counted
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * Progress modal
+ * Shows a batch run's progress (notes done, current note, time left) with a button that
+ * cancels between notes, then a summary listing the notes that failed
+ */
+export class ProgressModal extends Modal {
+	title: string;
+	total: number;
+	// Set by the cancel button or by closing the modal while the run is going
+	cancelled = false;
+	private running = true;
+	private closed = false;
+	private startTime = Date.now();
+	private lastRender = 0;
+	private barEl: HTMLProgressElement;
+	private countEl: HTMLElement;
+	private fileEl: HTMLElement;
+	private etaEl: HTMLElement;
+
+	constructor(app: App, title: string, total: number) {
+		super(app);
+		this.title = title;
+		this.total = total;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('vault-linter-progress');
+		this.titleEl.setText(this.title);
+
+		this.barEl = contentEl.createEl('progress', { attr: { max: Math.max(this.total, 1), value: 0 } });
+		this.countEl = contentEl.createDiv({ cls: 'vault-linter-progress-count' });
+		this.fileEl = contentEl.createDiv({ cls: 'vault-linter-progress-file' });
+		this.etaEl = contentEl.createDiv({ cls: 'vault-linter-progress-eta' });
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => {
+					this.cancelled = true;
+					button.setDisabled(true);
+					button.setButtonText('Cancelling…');
+				}));
+		this.render(0, '');
+	}
+
+	onClose() {
+		this.closed = true;
+		if (this.running) {
+			this.cancelled = true;
+		}
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Report progress before handling a note; redraws at most every RENDER_INTERVAL
+	 */
+	update(processed: number, currentPath: string) {
+		const now = Date.now();
+		if (now - this.lastRender < RENDER_INTERVAL && processed < this.total) {
+			return;
+		}
+		this.lastRender = now;
+		this.render(processed, currentPath);
+	}
+
+	private render(processed: number, currentPath: string) {
+		if (!this.barEl) {
+			return;
+		}
+		this.barEl.value = processed;
+		this.countEl.setText(`${processed} of ${this.total} file${this.total === 1 ? '' : 's'}`);
+		this.fileEl.setText(currentPath);
+		const remaining = estimateRemaining(processed, this.total, Date.now() - this.startTime);
+		this.etaEl.setText(remaining === null ? '' : `About ${formatDuration(remaining)} left`);
+	}
+
+	/**
+	 * Close without a summary, e.g. when the result opens in another modal
+	 */
+	dismiss() {
+		this.running = false;
+		this.close();
+	}
+
+	/**
+	 * Replace the progress with the run's summary and the notes that failed.
+	 * Returns false when the modal was already closed, so the caller can show a notice instead.
+	 */
+	finish(result: BatchResult, summary: string): boolean {
+		this.running = false;
+		if (this.closed) {
+			return false;
+		}
+
+		const { contentEl } = this;
+		contentEl.empty();
+		const elapsed = formatDuration(Date.now() - this.startTime);
+		contentEl.createEl('p', {
+			text: result.cancelled
+				? `Cancelled after ${result.processed} of ${result.total} files (${elapsed}). ${summary}`
+				: `${summary} (${elapsed})`
+		});
+
+		if (result.errors.length > 0) {
+			contentEl.createEl('p', { text: `${result.errors.length} file${result.errors.length === 1 ? '' : 's'} failed:` });
+			const listEl = contentEl.createEl('ul', { cls: 'vault-linter-progress-errors' });
+			for (const error of result.errors.slice(0, MAX_LISTED_ERRORS)) {
+				const itemEl = listEl.createEl('li');
+				itemEl.createEl('code', { text: error.path });
+				itemEl.appendText(`: ${error.message}`);
+			}
+			if (result.errors.length > MAX_LISTED_ERRORS) {
+				contentEl.createEl('p', { text: `…and ${result.errors.length - MAX_LISTED_ERRORS} more (see the developer console)` });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Close')
+				.setCta()
+				.onClick(() => this.close()));
+		return true;
+	}
+}
@@ -0,0 +1,102 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { addRun, formatHistoryAsMarkdown, HISTORY_NOTE_NAME, REPORT_FILE_PREFIX, ReportFile, reportFileTime, ReportRun, selectReportsToPrune } from './engine/history';
+
+/**
+ * Report storage
+ * Writes dry run reports to the reports folder, prunes old ones and keeps the history
+ * of problem counts (in the plugin data folder) with its summary note
+ */
+export class ReportStore {
+	app: App;
+	historyPath: string;
+
+	constructor(app: App, historyPath: string) {
+		this.app = app;
+		this.historyPath = historyPath;
+	}
+
+	/**
+	 * Past runs, oldest first
+	 */
+	async loadHistory(): Promise<ReportRun[]> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.historyPath))) {
+			return [];
+		}
+		try {
+			const history = JSON.parse(await adapter.read(this.historyPath));
+			return Array.isArray(history) ? history : [];
+		} catch (error) {
+			console.error('Vault Linter: report history is unreadable:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Create the reports folder if needed; false when a file with its name is in the way
+	 */
+	async ensureFolder(folder: string): Promise<boolean> {
+		const existing = this.app.vault.getAbstractFileByPath(folder);
+		if (!existing) {
+			await this.app.vault.createFolder(folder);
+			return true;
+		}
+		return existing instanceof TFolder;
+	}
+
+	/**
+	 * Report files in the folder, as written by "Dry run: Entire vault"
+	 */
+	private listReports(folder: string): TFile[] {
+		const entry = this.app.vault.getAbstractFileByPath(folder);
+		if (!(entry instanceof TFolder)) {
+			return [];
+		}
+		return entry.children.filter((child): child is TFile =>
+			child instanceof TFile && child.name.startsWith(REPORT_FILE_PREFIX));
+	}
+
+	/**
+	 * Delete reports beyond the retention limits; returns how many were deleted. Reports
+	 * are ordered by the time in their names; those without one are never deleted.
+	 */
+	async prune(folder: string, keepCount: number, maxAgeDays: number): Promise<number> {
+		const reports = this.listReports(folder);
+		const files: ReportFile[] = [];
+		for (const file of reports) {
+			const created = reportFileTime(file.name);
+			if (created !== null) {
+				files.push({ path: file.path, created });
+			}
+		}
+		const paths = selectReportsToPrune(files, keepCount, maxAgeDays);
+		for (const file of reports.filter(report => paths.includes(report.path))) {
+			await this.app.vault.delete(file);
+		}
+		return paths.length;
+	}
+
+	/**
+	 * Add a run to the history and rewrite the summary note
+	 */
+	async recordRun(folder: string, run: ReportRun, describeRule: (ruleId: string) => string) {
+		const history = addRun(await this.loadHistory(), run);
+		await this.app.vault.adapter.write(this.historyPath, JSON.stringify(history, null, 2));
+
+		const existingReports = new Set(this.listReports(folder).map(file => file.path));
+		const markdown = formatHistoryAsMarkdown(history, existingReports, describeRule);
+		await this.writeNote(`${folder}/${HISTORY_NOTE_NAME}`, markdown);
+	}
+
+	/**
+	 * Create or overwrite a note kept under a fixed name, e.g. the history note
+	 */
+	async writeNote(path: string, content: string) {
+		const note = this.app.vault.getAbstractFileByPath(path);
+		if (note instanceof TFile) {
+			await this.app.vault.modify(note, content);
+		} else if (!note) {
+			await this.app.vault.create(path, content);
+		}
+	}
+}
@@ -0,0 +1,225 @@
+import { App, Modal, Setting } from 'obsidian';
+import { applyHunks, DiffHunk } from './engine/diff';
+import { ChangeReport } from './engine/report';
+
+/**
+ * A reviewed file with only its accepted hunks applied
+ */
+export interface ReviewedFile {
+	report: ChangeReport;
+	content: string;
+}
+
+/**
+ * Review modal
+ * Lists every file the pipeline would change with an inline diff per hunk,
+ * so hunks or whole files can be accepted or rejected before anything is written.
+ * Without an apply callback the modal only shows the diffs (a dry run).
+ */
+export class ReviewModal extends Modal {
+	reports: ChangeReport[];
+	onApply: ((files: ReviewedFile[]) => Promise<void>) | null;
+	// Accepted state of every hunk, by file path
+	private accepted = new Map<string, boolean[]>();
+	// Re-renders the checkbox state of each file after a bulk change
+	private refreshers: (() => void)[] = [];
+
+	constructor(app: App, reports: ChangeReport[], onApply: ((files: ReviewedFile[]) => Promise<void>) | null) {
+		super(app);
+		this.reports = reports.filter(report => report.hunks.length > 0);
+		this.onApply = onApply;
+		for (const report of this.reports) {
+			this.accepted.set(report.filePath, report.hunks.map(() => true));
+		}
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('vault-linter-review');
+		const onApply = this.onApply;
+		const count = `${this.reports.length} file${this.reports.length === 1 ? '' : 's'}`;
+		this.titleEl.setText(onApply ? `Review changes (${count})` : `Dry run (${count})`);
+
+		if (this.reports.length === 0) {
+			contentEl.createEl('p', { text: 'No changes to review.' });
+			return;
+		}
+
+		if (!onApply) {
+			contentEl.createEl('p', { text: 'Changes normalization would make. Nothing is written.' });
+			const listEl = contentEl.createDiv({ cls: 'vault-linter-review-files' });
+			for (const report of this.reports) {
+				this.renderFile(listEl, report, false);
+			}
+			new Setting(contentEl)
+				.addButton(button => button
+					.setButtonText('Close')
+					.onClick(() => this.close()));
+			return;
+		}
+
+		new Setting(contentEl)
+			.setDesc('Accept or reject whole files or individual hunks. Only accepted hunks are written.')
+			.addButton(button => button
+				.setButtonText('Accept all')
+				.onClick(() => this.setAll(true)))
+			.addButton(button => button
+				.setButtonText('Reject all')
+				.onClick(() => this.setAll(false)));
+
+		const listEl = contentEl.createDiv({ cls: 'vault-linter-review-files' });
+		for (const report of this.reports) {
+			this.renderFile(listEl, report, true);
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Apply accepted changes')
+				.setCta()
+				.onClick(async () => {
+					const files = this.getReviewedFiles();
+					this.close();
+					await onApply(files);
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.refreshers = [];
+	}
+
+	/**
+	 * Accept or reject every hunk of every file
+	 */
+	private setAll(value: boolean) {
+		for (const [path, hunks] of this.accepted) {
+			this.accepted.set(path, hunks.map(() => value));
+		}
+		this.refreshers.forEach(refresh => refresh());
+	}
+
+	/**
+	 * Files with at least one accepted hunk, with their new content
+	 */
+	private getReviewedFiles(): ReviewedFile[] {
+		const files: ReviewedFile[] = [];
+		for (const report of this.reports) {
+			const accepted = this.accepted.get(report.filePath) || [];
+			if (!accepted.some(value => value)) {
+				continue;
+			}
+			const content = accepted.every(value => value)
+				? report.normalizedContent
+				: applyHunks(report.originalContent, report.hunks, accepted);
+			files.push({ report, content });
+		}
+		return files;
+	}
+
+	/**
+	 * Render a collapsible file entry; its hunks are only rendered when first expanded.
+	 * Read-only entries have no checkboxes.
+	 */
+	private renderFile(parentEl: HTMLElement, report: ChangeReport, selectable: boolean) {
+		const detailsEl = parentEl.createEl('details', { cls: 'vault-linter-review-file' });
+		const summaryEl = detailsEl.createEl('summary');
+		if (!selectable) {
+			summaryEl.createSpan({ text: `${report.filePath} ` });
+			summaryEl.createSpan({ cls: 'vault-linter-review-count', text: `(${report.hunks.length} hunk${report.hunks.length === 1 ? '' : 's'})` });
+			let renderedDiff = false;
+			detailsEl.addEventListener('toggle', () => {
+				if (detailsEl.open && !renderedDiff) {
+					renderedDiff = true;
+					this.renderChanges(detailsEl, report);
+					report.hunks.forEach(hunk => this.renderHunk(detailsEl, hunk));
+				}
+			});
+			return;
+		}
+		const fileCheckbox = summaryEl.createEl('input', { type: 'checkbox' });
+		summaryEl.createSpan({ text: ` ${report.filePath} ` });
+		const countEl = summaryEl.createSpan({ cls: 'vault-linter-review-count' });
+
+		const hunkCheckboxes: HTMLInputElement[] = [];
+		const refresh = () => {
+			const accepted = this.accepted.get(report.filePath) || [];
+			const count = accepted.filter(value => value).length;
+			fileCheckbox.checked = count === accepted.length;
+			fileCheckbox.indeterminate = count > 0 && count < accepted.length;
+			countEl.setText(`(${count}/${accepted.length} hunks accepted)`);
+			hunkCheckboxes.forEach((checkbox, index) => checkbox.checked = accepted[index]);
+		};
+		this.refreshers.push(refresh);
+
+		// Clicking the checkbox must not expand or collapse the entry
+		fileCheckbox.addEventListener('click', event => event.stopPropagation());
+		fileCheckbox.addEventListener('change', () => {
+			this.accepted.set(report.filePath, report.hunks.map(() => fileCheckbox.checked));
+			refresh();
+		});
+
+		let rendered = false;
+		detailsEl.addEventListener('toggle', () => {
+			if (!detailsEl.open || rendered) {
+				return;
+			}
+			rendered = true;
+
+			this.renderChanges(detailsEl, report);
+			report.hunks.forEach((hunk, index) => {
+				hunkCheckboxes.push(this.renderSelectableHunk(detailsEl, hunk, checked => {
+					const accepted = this.accepted.get(report.filePath) || [];
+					accepted[index] = checked;
+					refresh();
+				}));
+			});
+			refresh();
+		});
+
+		refresh();
+	}
+
+	/**
+	 * List the changes of a file with their lines
+	 */
+	private renderChanges(parentEl: HTMLElement, report: ChangeReport) {
+		const changesEl = parentEl.createEl('ul');
+		for (const change of report.changes) {
+			const lines = change.lines && change.lines.length > 0 ? ` (line ${change.lines.join(', ')})` : '';
+			changesEl.createEl('li', { text: `${change.description}${lines}` });
+		}
+	}
+
+	/**
+	 * Render one hunk as an inline diff with its own accept checkbox
+	 */
+	private renderSelectableHunk(parentEl: HTMLElement, hunk: DiffHunk, onChange: (checked: boolean) => void): HTMLInputElement {
+		const headerEl = this.renderHunk(parentEl, hunk);
+		const checkbox = createEl('input', { type: 'checkbox' });
+		headerEl.prepend(checkbox);
+		checkbox.addEventListener('change', () => onChange(checkbox.checked));
+		return checkbox;
+	}
+
+	/**
+	 * Render one hunk as an inline diff, returning its header
+	 */
+	private renderHunk(parentEl: HTMLElement, hunk: DiffHunk): HTMLElement {
+		const hunkEl = parentEl.createDiv({ cls: 'vault-linter-review-hunk' });
+		const headerEl = hunkEl.createEl('label', { cls: 'vault-linter-review-hunk-header' });
+		headerEl.createSpan({ text: ` @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` });
+
+		const preEl = hunkEl.createEl('pre', { cls: 'vault-linter-diff' });
+		for (const line of hunk.lines) {
+			const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+			const text = line.text.replace(/\r?\n$/, match => match.startsWith('\r') ? '␍' : '');
+			preEl.createDiv({ cls: `vault-linter-diff-${line.type}`, text: `${prefix}${text}` });
+		}
+
+		return headerEl;
+	}
+}
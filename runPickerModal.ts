@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { RunSummary } from './engine/snapshot';
+
+/**
+ * Picker listing past normalization runs, newest first
+ */
+export class RunPickerModal extends FuzzySuggestModal<RunSummary> {
+	runs: RunSummary[];
+	onChoose: (run: RunSummary) => void;
+
+	constructor(app: App, runs: RunSummary[], onChoose: (run: RunSummary) => void) {
+		super(app);
+		this.runs = runs;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a normalization run to undo');
+	}
+
+	getItems(): RunSummary[] {
+		return this.runs;
+	}
+
+	getItemText(run: RunSummary): string {
+		const date = new Date(run.timestamp);
+		const when = isNaN(date.getTime()) ? run.timestamp : date.toLocaleString();
+		return `${when} — ${run.label} (${run.fileCount} file${run.fileCount === 1 ? '' : 's'})`;
+	}
+
+	onChooseItem(run: RunSummary): void {
+		this.onChoose(run);
+	}
+}
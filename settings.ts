@@ -1,33 +1,192 @@
+import { ReportFormat } from './engine/reportFormats';
+import { RuleSetting, Severity } from './engine/rules';
+
+// Vault-level configuration file with custom rules
+export const VAULT_CONFIG_FILE = '.vault-linter.json';
+// Vault-level list of globs for notes the linter never touches
+export const IGNORE_FILE = '.vaultlinterignore';
+
+/**
+ * A typed frontmatter field validated by the frontmatter schema
+ */
+export interface FrontmatterFieldRule {
+	key: string;
+	type: 'string' | 'number' | 'boolean' | 'date' | 'list' | 'any';
+	required: boolean;
+	// Allowed values (for lists, every item must be allowed)
+	values?: string[];
+	// Regular expression the value (or every list item) must match
+	pattern?: string;
+	// Value inserted when a required field is missing
+	default?: string;
+	// Folder globs the field applies to; applies to every note when empty
+	folders?: string[];
+	// Folder globs where the field must not appear
+	forbiddenFolders?: string[];
+}
+
+/**
+ * A user-defined regex rule, registered as "custom/<id>"
+ */
+export interface CustomRuleDefinition {
+	id: string;
+	// Regular expression source and flags ("g" is implied)
+	pattern: string;
+	flags?: string;
+	// Replacement ($1 etc. allowed); without one, matches are only reported
+	replacement?: string;
+	message?: string;
+	// Where the rule applies; defaults to the note body
+	scope?: 'body' | 'frontmatter' | 'headings';
+	// Folder globs the rule applies to; applies to every note when empty
+	folders?: string[];
+	severity?: Severity;
+}
+
+/**
+ * Settings that replace the global ones for notes in matching folders
+ */
+export interface FolderOverride {
+	// Folder globs, e.g. ["Archive/"]
+	folders: string[];
+	settings: Partial<VaultLinterSettings>;
+}
+
 /**
  * Settings interface for Obsidian Vault Linter
  */
 export interface VaultLinterSettings {
+	// Per-rule enable/severity overrides, by rule ID
+	rules: Record<string, RuleSetting>;
+	customRules: CustomRuleDefinition[];
+	
+	// Scope settings: which notes are processed, and per-folder setting overrides
+	includeGlobs: string[];
+	excludeGlobs: string[];
+	folderOverrides: FolderOverride[];
+	// Folder commands and context menu entries also process notes in subfolders
+	includeSubfolders: boolean;
+	
 	// Frontmatter settings
 	enforceFrontmatter: boolean;
 	frontmatterTemplate: string;
+	frontmatterSchema: FrontmatterFieldRule[];
 	
 	// Formatting settings
 	normalizeFormatting: boolean;
 	endWithNewline: boolean;
 	removeMultipleBlankLines: boolean;
+	// Remove trailing spaces and tabs, keeping two-space hard line breaks
+	trimTrailingWhitespace: boolean;
+	// Indentation of list lines; 'none' keeps it as written
+	listIndentation: 'none' | 'spaces' | 'tabs';
+	// Columns per tab when converting list indentation
+	listIndentWidth: number;
+	// Bullet of unordered list items; 'none' keeps it as written
+	listMarker: 'none' | '-' | '*' | '+';
+	renumberOrderedLists: boolean;
+	// Blank line before lists and around code fences (headings are spaced by fixHeadingSpacing)
+	blankLinesAroundBlocks: boolean;
+	fenceStyle: 'none' | 'backtick' | 'tilde';
+	emphasisStyle: 'none' | 'asterisk' | 'underscore';
+	
+	// Heading settings
+	enforceHeadingRules: boolean;
+	fixHeadingSyntax: boolean;
+	fixHeadingSpacing: boolean;
+	fixHeadingLevels: boolean;
 	
 	// Tag settings
 	enforceTagRules: boolean;
-	tagFormat: 'lowercase' | 'uppercase' | 'camelCase' | 'none';
+	// Applied to each level of a nested tag, so `project/alpha-beta` keeps its hierarchy
+	tagFormat: 'lowercase' | 'uppercase' | 'camelCase' | 'PascalCase' | 'kebab-case' | 'snake_case' | 'none';
+	// Deduplicate and sort the frontmatter tags list
+	sortFrontmatterTags: boolean;
+	// Copy tags missing on one side: inline tags into frontmatter, or frontmatter tags into the body
+	tagSync: 'none' | 'inline-to-frontmatter' | 'frontmatter-to-inline';
+	// Tag taxonomy: synonyms mapped to their canonical tag, e.g. { "js": "lang/javascript" }
+	tagSynonyms: Record<string, string>;
+	// Renamed hierarchies, moving their children too, e.g. { "proj": "projects" }
+	tagRenames: Record<string, string>;
+	// Tags notes may use (`lang/*` allows every tag below lang); empty allows all
+	allowedTags: string[];
 	
 	// Wikilink settings
 	safeWikilinkInsertion: boolean;
 	wikilinkStyle: 'shortest' | 'relative' | 'absolute';
+	checkBrokenLinks: boolean;
+	
+	// Review settings
+	reviewBeforeApply: boolean;
+	
+	// Number of batch runs kept for undo
+	snapshotRetention: number;
+	
+	// Format of "Dry run: Entire vault" reports
+	reportFormat: ReportFormat;
+	// Folder for generated reports; always excluded so the linter never lints its own output
+	reportsFolder: string;
+	// Reports kept in the folder (0 keeps all) and their maximum age in days (0 keeps any age)
+	reportRetentionCount: number;
+	reportRetentionDays: number;
+	// Keep a summary note of problem counts per rule across runs
+	reportHistory: boolean;
+	
+	// Automatic linting
+	lintOnCreate: boolean;
+	lintOnSave: boolean;
+	// Milliseconds without further edits before a modified note is linted
+	lintOnSaveDelay: number;
+	showStatusBar: boolean;
+	// Underline problems in the editor, with quick fixes
+	editorDiagnostics: boolean;
 }
 
 export const DEFAULT_SETTINGS: VaultLinterSettings = {
+	rules: {},
+	customRules: [],
+	includeGlobs: [],
+	excludeGlobs: [],
+	folderOverrides: [],
+	includeSubfolders: false,
 	enforceFrontmatter: true,
 	frontmatterTemplate: '---\nid: {{id}}\ntitle: {{title}}\ndate: {{date}}\ntags: []\n---',
+	frontmatterSchema: [],
 	normalizeFormatting: true,
 	endWithNewline: true,
 	removeMultipleBlankLines: true,
+	trimTrailingWhitespace: false,
+	listIndentation: 'none',
+	listIndentWidth: 4,
+	listMarker: 'none',
+	renumberOrderedLists: false,
+	blankLinesAroundBlocks: false,
+	fenceStyle: 'none',
+	emphasisStyle: 'none',
+	enforceHeadingRules: true,
+	fixHeadingSyntax: false,
+	fixHeadingSpacing: false,
+	fixHeadingLevels: false,
 	enforceTagRules: false,
 	tagFormat: 'lowercase',
+	sortFrontmatterTags: true,
+	tagSync: 'none',
+	tagSynonyms: {},
+	tagRenames: {},
+	allowedTags: [],
 	safeWikilinkInsertion: true,
-	wikilinkStyle: 'shortest'
+	wikilinkStyle: 'shortest',
+	checkBrokenLinks: true,
+	reviewBeforeApply: false,
+	snapshotRetention: 10,
+	reportFormat: 'markdown',
+	reportsFolder: 'Reports',
+	reportRetentionCount: 0,
+	reportRetentionDays: 0,
+	reportHistory: true,
+	lintOnCreate: false,
+	lintOnSave: false,
+	lintOnSaveDelay: 2000,
+	showStatusBar: true,
+	editorDiagnostics: true
 };
@@ -1,6 +1,24 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import { getRuleSeverity, isRuleEnabled } from './engine/rules';
 import VaultLinterPlugin from './main';
 
+/**
+ * Parse a JSON object mapping tags to tags; null while the JSON is incomplete or invalid
+ */
+function parseTagMap(value: string): Record<string, string> | null {
+	let map;
+	try {
+		map = JSON.parse(value || '{}');
+	} catch (error) {
+		return null;
+	}
+	if (!map || typeof map !== 'object' || Array.isArray(map) || Object.values(map).some(tag => typeof tag !== 'string')) {
+		new Notice('Tag synonyms and renames must be a JSON object of tags, e.g. {"js": "lang/javascript"}');
+		return null;
+	}
+	return map;
+}
+
 export class VaultLinterSettingTab extends PluginSettingTab {
 	plugin: VaultLinterPlugin;
 
@@ -16,6 +34,51 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'Obsidian Vault Linter Settings' });
 
+		// Rules section
+		containerEl.createEl('h3', { text: 'Rules' });
+
+		for (const rule of this.plugin.pipeline.registry.getAll()) {
+			new Setting(containerEl)
+				.setName(rule.id)
+				.setDesc(rule.description)
+				.addDropdown(dropdown => dropdown
+					.addOption('error', 'Error')
+					.addOption('warning', 'Warning')
+					.addOption('info', 'Info')
+					.setValue(getRuleSeverity(this.plugin.settings, rule))
+					.onChange(async (value: any) => {
+						this.plugin.settings.rules[rule.id] = { enabled: isRuleEnabled(this.plugin.settings, rule), severity: value };
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setValue(isRuleEnabled(this.plugin.settings, rule))
+					.onChange(async (value) => {
+						this.plugin.settings.rules[rule.id] = { ...this.plugin.settings.rules[rule.id], enabled: value };
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Custom rules')
+			.setDesc('JSON list of regex rules, registered as "custom/<id>", e.g. [{"id": "email", "pattern": "\\be-mail\\b", "flags": "i", "replacement": "email", "message": "Write email, not e-mail"}]. Without "replacement" matches are only reported. Optional: scope (body, frontmatter, headings), folders, severity. Rules in .vault-linter.json at the vault root are added to these.')
+			.addTextArea(text => text
+				.setPlaceholder('[]')
+				.setValue(JSON.stringify(this.plugin.settings.customRules, null, 2))
+				.onChange(async (value) => {
+					let customRules;
+					try {
+						customRules = JSON.parse(value || '[]');
+					} catch (error) {
+						return; // Keep the last valid rules while the user is typing
+					}
+					if (!Array.isArray(customRules)) {
+						new Notice('Custom rules must be a JSON list');
+						return;
+					}
+					this.plugin.settings.customRules = customRules;
+					await this.plugin.saveSettings();
+				}));
+
 		// Frontmatter section
 		containerEl.createEl('h3', { text: 'Frontmatter' });
 
@@ -40,6 +103,27 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Frontmatter schema')
+			.setDesc('JSON list of typed fields, e.g. [{"key": "status", "type": "string", "required": true, "values": ["draft", "review", "done"], "default": "draft", "folders": ["Projects/"]}]. Supported types: string, number, boolean, date, list, any. Optional: pattern, forbiddenFolders.')
+			.addTextArea(text => text
+				.setPlaceholder('[]')
+				.setValue(JSON.stringify(this.plugin.settings.frontmatterSchema, null, 2))
+				.onChange(async (value) => {
+					let schema;
+					try {
+						schema = JSON.parse(value || '[]');
+					} catch (error) {
+						return; // Keep the last valid schema while the user is typing
+					}
+					if (!Array.isArray(schema) || schema.some(field => typeof field?.key !== 'string')) {
+						new Notice('Frontmatter schema must be a JSON list of fields with a "key"');
+						return;
+					}
+					this.plugin.settings.frontmatterSchema = schema;
+					await this.plugin.saveSettings();
+				}));
+
 		// Formatting section
 		containerEl.createEl('h3', { text: 'Formatting' });
 
@@ -73,6 +157,147 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Trim trailing whitespace')
+			.setDesc('Remove spaces and tabs at the end of lines; two spaces before the next line of a paragraph (a hard line break) are kept')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trimTrailingWhitespace)
+				.onChange(async (value) => {
+					this.plugin.settings.trimTrailingWhitespace = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('List indentation')
+			.setDesc('Indent nested list items and their continuation lines with tabs or spaces')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Keep as written')
+				.addOption('tabs', 'Tabs')
+				.addOption('spaces', 'Spaces')
+				.setValue(this.plugin.settings.listIndentation)
+				.onChange(async (value: any) => {
+					this.plugin.settings.listIndentation = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tab width')
+			.setDesc('Spaces per tab when converting list indentation')
+			.addText(text => text
+				.setPlaceholder('4')
+				.setValue(String(this.plugin.settings.listIndentWidth))
+				.onChange(async (value) => {
+					const width = parseInt(value, 10);
+					if (isNaN(width) || width < 1) {
+						return;
+					}
+					this.plugin.settings.listIndentWidth = width;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('List marker')
+			.setDesc('Bullet used for every unordered list item')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Keep as written')
+				.addOption('-', '- (hyphen)')
+				.addOption('*', '* (asterisk)')
+				.addOption('+', '+ (plus)')
+				.setValue(this.plugin.settings.listMarker)
+				.onChange(async (value: any) => {
+					this.plugin.settings.listMarker = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Renumber ordered lists')
+			.setDesc('Number the items of each ordered list consecutively, starting from the number of its first item')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.renumberOrderedLists)
+				.onChange(async (value) => {
+					this.plugin.settings.renumberOrderedLists = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Blank lines around blocks')
+			.setDesc('Add a blank line before lists and around code blocks. Headings are spaced by "Fix heading spacing".')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.blankLinesAroundBlocks)
+				.onChange(async (value) => {
+					this.plugin.settings.blankLinesAroundBlocks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Code fence style')
+			.setDesc('Fence used for every code block; blocks containing the other fence are left alone')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Keep as written')
+				.addOption('backtick', '``` (backticks)')
+				.addOption('tilde', '~~~ (tildes)')
+				.setValue(this.plugin.settings.fenceStyle)
+				.onChange(async (value: any) => {
+					this.plugin.settings.fenceStyle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Emphasis style')
+			.setDesc('Character used for emphasis (*italic* or _italic_); bold is left alone')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Keep as written')
+				.addOption('asterisk', '*asterisk*')
+				.addOption('underscore', '_underscore_')
+				.setValue(this.plugin.settings.emphasisStyle)
+				.onChange(async (value: any) => {
+					this.plugin.settings.emphasisStyle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Heading section
+		containerEl.createEl('h3', { text: 'Headings' });
+
+		new Setting(containerEl)
+			.setName('Validate headings')
+			.setDesc('Report skipped levels, multiple H1s, an H1 that differs from the frontmatter title, trailing punctuation, missing space after # and missing blank lines around headings')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enforceHeadingRules)
+				.onChange(async (value) => {
+					this.plugin.settings.enforceHeadingRules = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fix heading syntax')
+			.setDesc('Add the missing space after # and remove trailing punctuation')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.fixHeadingSyntax)
+				.onChange(async (value) => {
+					this.plugin.settings.fixHeadingSyntax = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fix heading spacing')
+			.setDesc('Surround headings with blank lines')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.fixHeadingSpacing)
+				.onChange(async (value) => {
+					this.plugin.settings.fixHeadingSpacing = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fix heading levels')
+			.setDesc('Promote headings that skip a level (H1 → H3 becomes H1 → H2), together with their subheadings')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.fixHeadingLevels)
+				.onChange(async (value) => {
+					this.plugin.settings.fixHeadingLevels = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Tag section
 		containerEl.createEl('h3', { text: 'Tags' });
 
@@ -88,11 +313,14 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Tag format')
-			.setDesc('Preferred format for tags')
+			.setDesc('Preferred format for tags, applied to each level of nested tags')
 			.addDropdown(dropdown => dropdown
 				.addOption('lowercase', 'lowercase')
 				.addOption('uppercase', 'UPPERCASE')
 				.addOption('camelCase', 'camelCase')
+				.addOption('PascalCase', 'PascalCase')
+				.addOption('kebab-case', 'kebab-case')
+				.addOption('snake_case', 'snake_case')
 				.addOption('none', 'No normalization')
 				.setValue(this.plugin.settings.tagFormat)
 				.onChange(async (value: any) => {
@@ -100,6 +328,70 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Sort frontmatter tags')
+			.setDesc('Remove duplicate frontmatter tags (ignoring case) and sort the rest alphabetically')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.sortFrontmatterTags)
+				.onChange(async (value) => {
+					this.plugin.settings.sortFrontmatterTags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag sync')
+			.setDesc('Add inline tags missing from the frontmatter tags, or frontmatter tags missing from the body as a line of #tags at the end of the note')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'No sync')
+				.addOption('inline-to-frontmatter', 'Inline tags to frontmatter')
+				.addOption('frontmatter-to-inline', 'Frontmatter tags to inline')
+				.setValue(this.plugin.settings.tagSync)
+				.onChange(async (value: any) => {
+					this.plugin.settings.tagSync = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag synonyms')
+			.setDesc('JSON object mapping synonyms to their canonical tag, e.g. {"js": "lang/javascript", "javascript": "lang/javascript"}. Applied to inline and frontmatter tags, ignoring case.')
+			.addTextArea(text => text
+				.setPlaceholder('{}')
+				.setValue(JSON.stringify(this.plugin.settings.tagSynonyms, null, 2))
+				.onChange(async (value) => {
+					const synonyms = parseTagMap(value);
+					if (!synonyms) {
+						return; // Keep the last valid synonyms while the user is typing
+					}
+					this.plugin.settings.tagSynonyms = synonyms;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag renames')
+			.setDesc('JSON object renaming tag hierarchies, e.g. {"proj": "projects"} turns #proj and #proj/alpha into #projects and #projects/alpha. Applied after synonyms.')
+			.addTextArea(text => text
+				.setPlaceholder('{}')
+				.setValue(JSON.stringify(this.plugin.settings.tagRenames, null, 2))
+				.onChange(async (value) => {
+					const renames = parseTagMap(value);
+					if (!renames) {
+						return; // Keep the last valid renames while the user is typing
+					}
+					this.plugin.settings.tagRenames = renames;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Allowed tags')
+			.setDesc('Tags notes may use, one per line; lang/* allows every tag below lang. Other tags are reported. Leave empty to allow any tag.')
+			.addTextArea(text => text
+				.setPlaceholder('lang/*')
+				.setValue(this.plugin.settings.allowedTags.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.allowedTags = value.split('\n').map(line => line.trim()).filter(line => line !== '');
+					await this.plugin.saveSettings();
+				}));
+
 		// Wikilink section
 		containerEl.createEl('h3', { text: 'Wikilinks' });
 
@@ -125,5 +417,225 @@ export class VaultLinterSettingTab extends PluginSettingTab {
 					this.plugin.settings.wikilinkStyle = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Check for broken links')
+			.setDesc('List wikilinks, embeds and Markdown links whose file, heading or block does not exist in dry run reports')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.checkBrokenLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.checkBrokenLinks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Scope section
+		containerEl.createEl('h3', { text: 'Scope' });
+
+		new Setting(containerEl)
+			.setName('Include')
+			.setDesc('Only lint notes matching these globs, one per line (e.g. Notes/, **/*.md). Leave empty to lint the whole vault.')
+			.addTextArea(text => text
+				.setPlaceholder('Notes/')
+				.setValue(this.plugin.settings.includeGlobs.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.includeGlobs = value.split('\n').map(line => line.trim()).filter(line => line !== '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Exclude')
+			.setDesc('Never lint notes matching these globs, one per line (e.g. Templates/). Globs in .vaultlinterignore at the vault root are excluded too; the reports folder always is.')
+			.addTextArea(text => text
+				.setPlaceholder('Templates/')
+				.setValue(this.plugin.settings.excludeGlobs.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.excludeGlobs = value.split('\n').map(line => line.trim()).filter(line => line !== '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Folder overrides')
+			.setDesc('JSON list of settings that apply to notes in matching folders; later entries win, e.g. [{"folders": ["Archive/"], "settings": {"tagFormat": "none"}}]')
+			.addTextArea(text => text
+				.setPlaceholder('[]')
+				.setValue(JSON.stringify(this.plugin.settings.folderOverrides, null, 2))
+				.onChange(async (value) => {
+					let folderOverrides;
+					try {
+						folderOverrides = JSON.parse(value || '[]');
+					} catch (error) {
+						return; // Keep the last valid overrides while the user is typing
+					}
+					if (!Array.isArray(folderOverrides) || folderOverrides.some(override => !Array.isArray(override?.folders))) {
+						new Notice('Folder overrides must be a JSON list of entries with "folders" and "settings"');
+						return;
+					}
+					this.plugin.settings.folderOverrides = folderOverrides;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include subfolders')
+			.setDesc('"Normalize: Folder", the folder picker commands and the file explorer menu also process notes in subfolders')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeSubfolders)
+				.onChange(async (value) => {
+					this.plugin.settings.includeSubfolders = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Review section
+		containerEl.createEl('h3', { text: 'Review' });
+
+		new Setting(containerEl)
+			.setName('Review before applying')
+			.setDesc('"Normalize: Folder" and "Normalize: Entire vault" open a review of every change instead of writing immediately')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reviewBeforeApply)
+				.onChange(async (value) => {
+					this.plugin.settings.reviewBeforeApply = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Undo history')
+			.setDesc('Number of batch normalization runs kept for "Undo last normalization run"')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.snapshotRetention))
+				.onChange(async (value) => {
+					const retention = parseInt(value, 10);
+					if (isNaN(retention) || retention < 1) {
+						return;
+					}
+					this.plugin.settings.snapshotRetention = retention;
+					await this.plugin.saveSettings();
+				}));
+
+		// Reports section
+		containerEl.createEl('h3', { text: 'Reports' });
+
+		new Setting(containerEl)
+			.setName('Report format')
+			.setDesc('Format of the report saved by "Dry run: Entire vault": Markdown to read, JSON with a stable schema to compare runs, SARIF for code scanning tools or CSV for spreadsheets')
+			.addDropdown(dropdown => dropdown
+				.addOption('markdown', 'Markdown')
+				.addOption('json', 'JSON')
+				.addOption('sarif', 'SARIF 2.1')
+				.addOption('csv', 'CSV')
+				.setValue(this.plugin.settings.reportFormat)
+				.onChange(async (value: any) => {
+					this.plugin.settings.reportFormat = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reports folder')
+			.setDesc('Folder for dry run reports and the history note. It is never linted.')
+			.addText(text => text
+				.setPlaceholder('Reports')
+				.setValue(this.plugin.settings.reportsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.reportsFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reports to keep')
+			.setDesc('Older reports are deleted after each dry run (0 keeps all)')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.reportRetentionCount))
+				.onChange(async (value) => {
+					const count = parseInt(value, 10);
+					if (isNaN(count) || count < 0) {
+						return;
+					}
+					this.plugin.settings.reportRetentionCount = count;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum report age')
+			.setDesc('Days after which reports are deleted (0 keeps reports of any age). The latest report is always kept.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.reportRetentionDays))
+				.onChange(async (value) => {
+					const days = parseInt(value, 10);
+					if (isNaN(days) || days < 0) {
+						return;
+					}
+					this.plugin.settings.reportRetentionDays = days;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Report history')
+			.setDesc('Keep a "Report history" note in the reports folder with problem counts per rule across dry runs')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reportHistory)
+				.onChange(async (value) => {
+					this.plugin.settings.reportHistory = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Automatic linting section
+		containerEl.createEl('h3', { text: 'Automatic linting' });
+
+		new Setting(containerEl)
+			.setName('Lint new notes')
+			.setDesc('Normalize notes as soon as they are created, e.g. to add frontmatter')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.lintOnCreate)
+				.onChange(async (value) => {
+					this.plugin.settings.lintOnCreate = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Lint on save')
+			.setDesc('Normalize notes when they are modified. In the open editor, changes to the line being edited wait for a later save.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.lintOnSave)
+				.onChange(async (value) => {
+					this.plugin.settings.lintOnSave = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Lint on save delay')
+			.setDesc('Milliseconds without further changes before a modified note is linted')
+			.addText(text => text
+				.setPlaceholder('2000')
+				.setValue(String(this.plugin.settings.lintOnSaveDelay))
+				.onChange(async (value) => {
+					const delay = parseInt(value, 10);
+					if (isNaN(delay) || delay < 0) {
+						return;
+					}
+					this.plugin.settings.lintOnSaveDelay = delay;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show status bar indicator')
+			.setDesc('Show in the status bar whether the active note conforms to the linting rules')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showStatusBar)
+				.onChange(async (value) => {
+					this.plugin.settings.showStatusBar = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show diagnostics in the editor')
+			.setDesc('Underline problems as you type; hover for the rule and message, and apply quick fixes one at a time')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.editorDiagnostics)
+				.onChange(async (value) => {
+					this.plugin.settings.editorDiagnostics = value;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
@@ -0,0 +1,132 @@
+import { DataAdapter } from 'obsidian';
+import { NormalizationRun, RunSummary, SnapshotFile, summarizeRun } from './engine/snapshot';
+
+/**
+ * Snapshot storage
+ * Keeps one file per normalization run in the plugin data folder, plus an index of
+ * run summaries so past runs can be listed without loading their contents. A run file
+ * holds the run as JSON, followed by one JSON line per file recorded after it was
+ * started, so a run is stored before each file it overwrites. The index is written once
+ * a run finishes; runs that never finished are found from their files when listing.
+ */
+export class SnapshotStore {
+	adapter: DataAdapter;
+	dir: string;
+
+	constructor(adapter: DataAdapter, dir: string) {
+		this.adapter = adapter;
+		this.dir = dir;
+	}
+
+	private get indexPath(): string {
+		return `${this.dir}/index.json`;
+	}
+
+	private runPath(id: string): string {
+		return `${this.dir}/${id}.json`;
+	}
+
+	/**
+	 * Past runs, newest first, including runs interrupted before they were indexed
+	 */
+	async list(): Promise<RunSummary[]> {
+		const index = await this.readIndex();
+		if (!(await this.adapter.exists(this.dir))) {
+			return index;
+		}
+
+		const indexed = new Set(index.map(summary => summary.id));
+		const unfinished: RunSummary[] = [];
+		for (const path of (await this.adapter.list(this.dir)).files) {
+			const id = path.split('/').pop()!.replace(/\.json$/, '');
+			if (path === this.indexPath || !path.endsWith('.json') || indexed.has(id)) {
+				continue;
+			}
+			try {
+				const run = await this.load(id);
+				if (run && run.files.length > 0) {
+					unfinished.push(summarizeRun(run));
+				}
+			} catch (error) {
+				console.error(`Vault Linter: snapshot ${path} is unreadable:`, error);
+			}
+		}
+		return [...index, ...unfinished].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+	}
+
+	private async readIndex(): Promise<RunSummary[]> {
+		if (!(await this.adapter.exists(this.indexPath))) {
+			return [];
+		}
+		try {
+			const index = JSON.parse(await this.adapter.read(this.indexPath));
+			return Array.isArray(index) ? index : [];
+		} catch (error) {
+			console.error('Vault Linter: snapshot index is unreadable:', error);
+			return [];
+		}
+	}
+
+	async load(id: string): Promise<NormalizationRun | null> {
+		const path = this.runPath(id);
+		if (!(await this.adapter.exists(path))) {
+			return null;
+		}
+		const [header, ...lines] = (await this.adapter.read(path)).split('\n').filter(line => line.trim() !== '');
+		const run: NormalizationRun = JSON.parse(header);
+		run.files.push(...lines.map(line => JSON.parse(line) as SnapshotFile));
+		return run;
+	}
+
+	/**
+	 * Store a run as it starts, before the first file it overwrites
+	 */
+	async start(run: NormalizationRun) {
+		if (!(await this.adapter.exists(this.dir))) {
+			await this.adapter.mkdir(this.dir);
+		}
+		await this.adapter.write(this.runPath(run.id), JSON.stringify(run));
+	}
+
+	/**
+	 * Add a file to a started run
+	 */
+	async append(run: NormalizationRun, file: SnapshotFile) {
+		await this.adapter.append(this.runPath(run.id), '\n' + JSON.stringify(file));
+	}
+
+	/**
+	 * Add a finished run to the index and drop the oldest runs beyond the retention limit
+	 */
+	async finish(run: NormalizationRun, retention: number) {
+		const index = [summarizeRun(run), ...(await this.list()).filter(summary => summary.id !== run.id)];
+		const kept = index.slice(0, Math.max(1, retention));
+		for (const summary of index.slice(kept.length)) {
+			await this.removeRunFile(summary.id);
+		}
+		await this.writeIndex(kept);
+	}
+
+	/**
+	 * Replace a stored run, keeping its place in the index
+	 */
+	async update(run: NormalizationRun) {
+		await this.adapter.write(this.runPath(run.id), JSON.stringify(run));
+		await this.writeIndex((await this.readIndex()).map(summary => summary.id === run.id ? summarizeRun(run) : summary));
+	}
+
+	async remove(id: string) {
+		await this.removeRunFile(id);
+		await this.writeIndex((await this.readIndex()).filter(summary => summary.id !== id));
+	}
+
+	private async removeRunFile(id: string) {
+		if (await this.adapter.exists(this.runPath(id))) {
+			await this.adapter.remove(this.runPath(id));
+		}
+	}
+
+	private async writeIndex(index: RunSummary[]) {
+		await this.adapter.write(this.indexPath, JSON.stringify(index, null, 2));
+	}
+}
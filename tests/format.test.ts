@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { FormattingNormalizer } from '../engine/format';
+import { DEFAULT_SETTINGS, VaultLinterSettings } from '../settings';
+
+function formatter(settings: Partial<VaultLinterSettings>): FormattingNormalizer {
+	return new FormattingNormalizer({ ...DEFAULT_SETTINGS, ...settings });
+}
+
+describe('emphasis style', () => {
+	const toAsterisk = formatter({ emphasisStyle: 'asterisk' });
+	const toUnderscore = formatter({ emphasisStyle: 'underscore' });
+
+	it('converts emphasis in both directions', () => {
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle('An _important_ word'), 'An *important* word');
+		assert.strictEqual(toUnderscore.normalizeEmphasisStyle('An *important* word'), 'An _important_ word');
+	});
+
+	it('leaves strong emphasis, intraword markers and identifiers alone', () => {
+		const content = '__strong__ **strong** snake_case_name un*frigging*believable';
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle(content), content);
+		assert.strictEqual(toUnderscore.normalizeEmphasisStyle(content), content);
+	});
+
+	it('leaves HTML tags alone', () => {
+		const content = '<span class="a_b_c" title="_x_">text</span> and <img alt="*y*">';
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle(content), content);
+		assert.strictEqual(toUnderscore.normalizeEmphasisStyle(content), content);
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle('<b>_bold_</b>'), '<b>*bold*</b>');
+	});
+
+	it('leaves URLs alone', () => {
+		for (const content of ['See https://x.com/_a_ now', '<https://x.com/_a_/_b_>', '[link](https://x.com/_a_)']) {
+			assert.strictEqual(toAsterisk.normalizeEmphasisStyle(content), content);
+		}
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle('https://x.com/_a_ and _b_'), 'https://x.com/_a_ and *b*');
+		assert.strictEqual(toUnderscore.normalizeEmphasisStyle('https://x.com/*a* and *b*'), 'https://x.com/*a* and _b_');
+	});
+
+	it('leaves tags alone', () => {
+		const content = 'a #_private_ tag and #area/_draft_';
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle(content), content);
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle('#tag _note_'), '#tag *note*');
+	});
+
+	it('leaves code alone', () => {
+		const content = '`_code_`\n\n```\n_code_\n```\n';
+		assert.strictEqual(toAsterisk.normalizeEmphasisStyle(content), content);
+	});
+});
+
+describe('blank lines around blocks', () => {
+	const normalizer = formatter({ blankLinesAroundBlocks: true });
+
+	it('adds a blank line before a list that can interrupt a paragraph', () => {
+		assert.strictEqual(normalizer.addBlankLinesAroundBlocks('text\n- foo'), 'text\n\n- foo');
+		assert.strictEqual(normalizer.addBlankLinesAroundBlocks('text\n1. foo'), 'text\n\n1. foo');
+	});
+
+	it('leaves an ordered item not starting at 1 in its paragraph', () => {
+		assert.strictEqual(normalizer.addBlankLinesAroundBlocks('text\n2. foo'), 'text\n2. foo');
+		assert.strictEqual(normalizer.addBlankLinesAroundBlocks('text\n3) foo'), 'text\n3) foo');
+	});
+});
@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { reportFileTime, selectReportsToPrune } from '../engine/history';
+
+describe('report retention', () => {
+	it('reads the time a report was written from its file name', () => {
+		const date = new Date('2026-10-19T10:25:48.255Z');
+		const name = `vault-lint-report-${date.toISOString().replace(/[:.]/g, '-')}.json`;
+		assert.strictEqual(reportFileTime(name), date.getTime());
+		assert.strictEqual(reportFileTime('vault-lint-report-copy.md'), null);
+		assert.strictEqual(reportFileTime('Report history.md'), null);
+	});
+
+	it('keeps every report without limits', () => {
+		const files = [1, 2, 3].map(day => ({ path: `r${day}`, created: day * 86400000 }));
+		assert.deepStrictEqual(selectReportsToPrune(files, 0, 0), []);
+		assert.deepStrictEqual(selectReportsToPrune(files, 2, 0), ['r1']);
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { FIXES_NOT_SETTLED, FixesNotSettledError, NormalizationPipeline } from '../engine/normalize';
+import { Rule, RuleRegistry } from '../engine/rules';
+import { DEFAULT_SETTINGS } from '../settings';
+
+/**
+ * A rule replacing one word with another
+ */
+function replaceRule(id: string, from: string, to: string): Rule {
+	return { id, description: id, defaultSeverity: 'warning', check: () => [], fix: content => content.split(from).join(to) };
+}
+
+describe('normalize', () => {
+	it('reports rules whose fixes do not settle', () => {
+		const registry = new RuleRegistry();
+		registry.register(replaceRule('ping', 'ping', 'pong'));
+		registry.register(replaceRule('pong', 'pong', 'ping'));
+		const pipeline = new NormalizationPipeline({ ...DEFAULT_SETTINGS, customRules: [] }, registry);
+
+		assert.throws(() => pipeline.normalize('ping\n', 'note.md'), (error: unknown) =>
+			error instanceof FixesNotSettledError && error.ruleIds.length > 0);
+		const unsettled = pipeline.lint('ping\n', 'note.md').diagnostics.filter(diagnostic => diagnostic.type === FIXES_NOT_SETTLED);
+		assert.ok(unsettled.length > 0);
+		assert.ok(unsettled.every(diagnostic => diagnostic.severity === 'error' && ['ping', 'pong'].includes(diagnostic.ruleId)));
+	});
+
+	it('reports nothing when fixes settle', () => {
+		const registry = new RuleRegistry();
+		registry.register(replaceRule('ping', 'ping', 'pong'));
+		const pipeline = new NormalizationPipeline({ ...DEFAULT_SETTINGS, customRules: [] }, registry);
+
+		assert.strictEqual(pipeline.normalize('ping\n', 'note.md'), 'pong\n');
+		assert.ok(!pipeline.lint('ping\n', 'note.md').diagnostics.some(diagnostic => diagnostic.type === FIXES_NOT_SETTLED));
+	});
+});
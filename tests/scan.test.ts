@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { scanSegments } from '../engine/scan';
+
+/**
+ * Types of the segments holding the given text
+ */
+function typesOf(content: string, text: string): string[] {
+	return scanSegments(content).filter(segment => segment.content.includes(text)).map(segment => segment.type);
+}
+
+describe('indented code', () => {
+	it('needs a blank line before it', () => {
+		assert.deepStrictEqual(typesOf('\n    #Indented\n', '#Indented'), ['indented-code']);
+		assert.deepStrictEqual(typesOf('Paragraph\n    #Indented\n', '#Indented'), ['text']);
+	});
+
+	it('may directly follow a closed fence or math block', () => {
+		assert.deepStrictEqual(typesOf('```\ncode\n```\n    #Indented\n', '#Indented'), ['indented-code']);
+		assert.deepStrictEqual(typesOf('$$\nx\n$$\n    #Indented\n', '#Indented'), ['indented-code']);
+	});
+
+	it('does not start inside a list item', () => {
+		assert.deepStrictEqual(typesOf('- item\n\n    #Continued\n', '#Continued'), ['text']);
+	});
+});
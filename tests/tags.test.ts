@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { NormalizationPipeline } from '../engine/normalize';
+import { TagRules } from '../engine/tags';
+import { DEFAULT_SETTINGS, VaultLinterSettings } from '../settings';
+
+function rules(tagFormat: VaultLinterSettings['tagFormat']): TagRules {
+	return new TagRules({ ...DEFAULT_SETTINGS, enforceTagRules: true, tagFormat });
+}
+
+// Every tag format, so adding one without covering it here fails to compile
+const TAG_FORMATS: Record<VaultLinterSettings['tagFormat'], true> = {
+	lowercase: true,
+	uppercase: true,
+	camelCase: true,
+	PascalCase: true,
+	'kebab-case': true,
+	snake_case: true,
+	none: true
+};
+
+// Nested, mixed-case, acronym, digit and non-ASCII tags
+const SAMPLE_TAGS = [
+	'project/alpha-beta',
+	'myTag_name',
+	'Project/AlphaBeta',
+	'area/sub_area/my-Tag',
+	'XMLParser',
+	'getHTTP',
+	'v2Release',
+	'a--b',
+	'café_crème',
+	'Über/straßeNeu',
+	'日本語/メモ'
+];
+
+/**
+ * Formatting a tag twice gives the same result as formatting it once
+ */
+function assertIdempotent(tagFormat: VaultLinterSettings['tagFormat']): void {
+	const tagRules = rules(tagFormat);
+	for (const tag of SAMPLE_TAGS) {
+		const once = tagRules.normalizeTag(tag);
+		assert.strictEqual(tagRules.normalizeTag(once), once, `${tagFormat} of "${tag}"`);
+	}
+}
+
+describe('tag formats', () => {
+	it('PascalCase formats each level and is idempotent', () => {
+		const tagRules = rules('PascalCase');
+		assert.strictEqual(tagRules.normalizeTag('project/alpha-beta'), 'Project/AlphaBeta');
+		assert.strictEqual(tagRules.normalizeTag('myTag_name'), 'MyTagName');
+		assertIdempotent('PascalCase');
+	});
+
+	it('kebab-case formats each level and is idempotent', () => {
+		const tagRules = rules('kebab-case');
+		assert.strictEqual(tagRules.normalizeTag('Project/AlphaBeta'), 'project/alpha-beta');
+		assert.strictEqual(tagRules.normalizeTag('myTag_name'), 'my-tag-name');
+		assert.strictEqual(tagRules.normalizeTag('café_crème'), 'café-crème');
+		assertIdempotent('kebab-case');
+	});
+
+	it('snake_case formats each level and is idempotent', () => {
+		const tagRules = rules('snake_case');
+		assert.strictEqual(tagRules.normalizeTag('project/alpha-beta'), 'project/alpha_beta');
+		assert.strictEqual(tagRules.normalizeTag('myTag_name'), 'my_tag_name');
+		assert.strictEqual(tagRules.normalizeTag('area/sub_area/my-Tag'), 'area/sub_area/my_tag');
+		assertIdempotent('snake_case');
+	});
+
+	it('camelCase keeps the hierarchy and is idempotent', () => {
+		const tagRules = rules('camelCase');
+		assert.strictEqual(tagRules.normalizeTag('project/alpha-beta'), 'project/alphaBeta');
+		assert.strictEqual(tagRules.normalizeTag('myTag_name'), 'myTagName');
+		assertIdempotent('camelCase');
+	});
+
+	it('lowercase formats the whole tag and is idempotent', () => {
+		const tagRules = rules('lowercase');
+		assert.strictEqual(tagRules.normalizeTag('Project/AlphaBeta'), 'project/alphabeta');
+		assert.strictEqual(tagRules.normalizeTag('Über/straßeNeu'), 'über/straßeneu');
+		assertIdempotent('lowercase');
+	});
+
+	it('uppercase formats the whole tag and is idempotent', () => {
+		const tagRules = rules('uppercase');
+		assert.strictEqual(tagRules.normalizeTag('project/alpha-beta'), 'PROJECT/ALPHA-BETA');
+		assert.strictEqual(tagRules.normalizeTag('café_crème'), 'CAFÉ_CRÈME');
+		assert.strictEqual(tagRules.normalizeTag('Über/straßeNeu'), 'ÜBER/STRASSENEU');
+		assertIdempotent('uppercase');
+	});
+
+	it('keeps acronyms in camelCase and PascalCase', () => {
+		assert.strictEqual(rules('camelCase').normalizeTag('getHTTP'), 'getHTTP');
+		assert.strictEqual(rules('PascalCase').normalizeTag('XMLParser'), 'XMLParser');
+	});
+
+	it('leaves scripts without case alone', () => {
+		assert.strictEqual(rules('kebab-case').normalizeTag('日本語/メモ'), '日本語/メモ');
+	});
+
+	it('formats mixed-case quoted scalars and flow lists idempotently', () => {
+		for (const tagFormat of Object.keys(TAG_FORMATS) as VaultLinterSettings['tagFormat'][]) {
+			const tagRules = rules(tagFormat);
+			for (const content of ["---\ntags: 'Project/AlphaBeta'\n---\n", '---\ntag: "#myTag_name"\n---\n', '---\ntags: ["XMLParser", \'café_crème\', Über/straßeNeu]\n---\n']) {
+				const once = tagRules.enforce(content);
+				assert.strictEqual(tagRules.enforce(once), once, `${tagFormat}: ${content}`);
+			}
+		}
+	});
+
+	it('formats inline and frontmatter tags idempotently', () => {
+		for (const tagFormat of Object.keys(TAG_FORMATS) as VaultLinterSettings['tagFormat'][]) {
+			const tagRules = rules(tagFormat);
+			const content = `---\ntags: [${SAMPLE_TAGS.join(', ')}]\n---\n${SAMPLE_TAGS.map(tag => `#${tag}`).join(' ')}\n`;
+			const once = tagRules.enforce(content);
+			assert.strictEqual(tagRules.enforce(once), once, tagFormat);
+		}
+	});
+});
+
+describe('tag sync', () => {
+	it('does not sync inline tags where the tags rule is suppressed', () => {
+		const pipeline = new NormalizationPipeline({ ...DEFAULT_SETTINGS, enforceTagRules: true, tagFormat: 'kebab-case', tagSync: 'inline-to-frontmatter' });
+		const content = '---\ntags: [note]\n---\n%% vault-linter-disable tags %%\n#BadTag\n%% vault-linter-enable tags %%\n#GoodTag\n';
+		const normalized = pipeline.normalize(content, 'note.md');
+		assert.ok(normalized.includes('#BadTag\n'));
+		assert.ok(!normalized.includes('bad-tag'));
+		assert.ok(normalized.includes('good-tag'));
+	});
+});
+
+describe('frontmatter tag sync', () => {
+	const tagRules = new TagRules({ ...DEFAULT_SETTINGS, enforceTagRules: true, tagFormat: 'lowercase', tagSync: 'inline-to-frontmatter' });
+
+	it('turns a quoted scalar into a flow array when adding tags', () => {
+		assert.strictEqual(tagRules.enforce("---\ntags: 'B'\n---\n#new\n"), "---\ntags: ['b', new]\n---\n#new\n");
+		assert.strictEqual(tagRules.enforce('---\ntag: "#x"\n---\n#new\n'), '---\ntag: [new, "#x"]\n---\n#new\n');
+	});
+
+	it('appends tags to entries with comments, leaving the comments alone', () => {
+		assert.strictEqual(tagRules.enforce('---\ntags: # topics\n  - a # first\n---\n#new\n'),
+			'---\ntags: # topics\n  - a # first\n  - new\n---\n#new\n');
+		assert.strictEqual(tagRules.enforce('---\ntags: [a] # topics\n---\n#new\n'), '---\ntags: [a, new] # topics\n---\n#new\n');
+	});
+
+	it('reports inline tags that cannot be synced', () => {
+		const content = '---\ntags: |\n  a\n---\n#new\n';
+		assert.strictEqual(tagRules.enforce(content), content);
+		const errors = tagRules.validate(content).filter(error => error.type === 'tag-sync-failed');
+		assert.strictEqual(errors.length, 1);
+		assert.strictEqual(errors[0].lineNumber, 2);
+		assert.deepStrictEqual(tagRules.validate('---\ntags: [a] # topics\n---\n#new\n'), []);
+	});
+
+	it('keeps the quotes around a quoted string of tags', () => {
+		assert.strictEqual(tagRules.enforce('---\ntags: "a b"\n---\n#new\n'), '---\ntags: "a b new"\n---\n#new\n');
+	});
+});